@@ -0,0 +1,100 @@
+import { erasePatch, readRegion, regionBounds, type EraseOptions, type EraseResult, type PixelRect } from "./background";
+
+// Background reconstruction off the main thread. Each job hands the worker a snapshot of
+// the box and its surroundings as an ImageBitmap; the worker rebuilds it on an
+// OffscreenCanvas and hands the rebuilt box back the same way, so the page never
+// blocks on inpainting or gradient interpolation. Browsers without workers or
+// OffscreenCanvas run the same code inline.
+
+export interface EraseJobRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  hole: PixelRect;
+  options: EraseOptions;
+}
+
+export type EraseJobReply =
+  | { id: number; bitmap: ImageBitmap; result: EraseResult }
+  | { id: number; error: string };
+
+// A rebuilt box, to draw at (x, y) over the canvas it was read from. Pixels the glyph
+// mask kept are transparent.
+export interface ErasedPatch {
+  x: number;
+  y: number;
+  bitmap: ImageBitmap;
+  result: EraseResult;
+}
+
+interface PendingJob {
+  resolve: (reply: EraseJobReply) => void;
+  reject: (error: unknown) => void;
+}
+
+export class BackgroundEraser {
+  private worker: Worker | null = null;
+  private jobs = new Map<number, PendingJob>();
+  private jobCounter = 0;
+  private supported = typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+  // Rebuild the background behind a box of the canvas, without touching the canvas.
+  // Null when the box lies outside it.
+  async erase(ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number, options: EraseOptions): Promise<ErasedPatch | null> {
+    const bounds = regionBounds(ctx.canvas.width, ctx.canvas.height, x0, y0, x1, y1);
+    if (!bounds) return null;
+    const x = bounds.x + bounds.hole.x0;
+    const y = bounds.y + bounds.hole.y0;
+
+    const worker = this.getWorker();
+    if (worker) {
+      try {
+        const bitmap = await createImageBitmap(ctx.canvas, bounds.x, bounds.y, bounds.width, bounds.height);
+        const reply = await this.run(worker, bitmap, bounds.hole, options);
+        if ('error' in reply) throw new Error(reply.error);
+
+        return { x, y, bitmap: reply.bitmap, result: reply.result };
+      } catch (error) {
+        console.warn('Background worker failed, erasing on the main thread:', error);
+      }
+    }
+
+    const region = readRegion(ctx, x0, y0, x1, y1);
+    if (!region) return null;
+    const { patch, result } = erasePatch(region, options);
+    return { x, y, bitmap: await createImageBitmap(patch), result };
+  }
+
+  private getWorker(): Worker | null {
+    if (!this.supported) return null;
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./background.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<EraseJobReply>) => {
+        const job = this.jobs.get(event.data.id);
+        this.jobs.delete(event.data.id);
+        job?.resolve(event.data);
+      };
+      // A worker that fails to load or crashes is not retried; everything runs inline from then on
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.supported = false;
+        this.worker?.terminate();
+        this.worker = null;
+        const error = new Error(event.message || 'Background worker failed');
+        this.jobs.forEach(job => job.reject(error));
+        this.jobs.clear();
+      };
+    }
+    return this.worker;
+  }
+
+  private run(worker: Worker, bitmap: ImageBitmap, hole: PixelRect, options: EraseOptions): Promise<EraseJobReply> {
+    const id = ++this.jobCounter;
+    return new Promise<EraseJobReply>((resolve, reject) => {
+      this.jobs.set(id, { resolve, reject });
+      const request: EraseJobRequest = { id, bitmap, hole, options };
+      worker.postMessage(request, [bitmap]);
+    });
+  }
+}
+
+export const backgroundEraser = new BackgroundEraser();
@@ -0,0 +1,318 @@
+import { buildGlyphMask, restoreUnmasked, type GlyphMask } from "./glyph-mask";
+import { inpaint, inpaintMargin, type TextureFill } from "./inpaint";
+
+// Background reconstruction behind erased text. Everything works on one buffer: the box
+// plus as much of its surroundings as the widest sampler needs, read from the canvas
+// with a single getImageData; the rebuilt box comes back as a patch of its own. Sampling,
+// variance and patch matching index that buffer directly instead of asking the canvas
+// for one pixel at a time.
+
+// How a box is erased: the background matcher, the legacy average of the surrounding
+// color, or plain white
+export type EraseMethod = 'matcher' | 'average' | 'white';
+
+export type BackgroundType = 'solid' | 'gradient' | 'textured';
+
+// Whole pixels, end exclusive
+export interface PixelRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Where the buffer for a box lies on the canvas
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hole: PixelRect; // The box, in buffer coordinates
+}
+
+export interface BackgroundRegion {
+  x: number; // Canvas position of the buffer
+  y: number;
+  image: ImageData;
+  hole: PixelRect;
+}
+
+export interface EraseOptions {
+  method: EraseMethod;
+  textureFill: TextureFill;
+  glyphMaskDilation: number | null; // Null erases the whole box instead of just the glyphs
+}
+
+export interface EraseResult {
+  type: BackgroundType | null; // What the matcher found; null for the other methods
+  masked: boolean;
+}
+
+interface Sample {
+  x: number;
+  y: number;
+  r: number;
+  g: number;
+  b: number;
+}
+
+type Color = [number, number, number];
+
+const WHITE: Color = [255, 255, 255];
+
+// Border variance (per channel, squared levels) separating the background types
+const SOLID_VARIANCE = 100;
+const GRADIENT_VARIANCE = 1000;
+// Block patches: block edge, the strip matched against what is already filled, and
+// the spacing of candidate blocks
+const BLOCK_SIZE = 16;
+const BLOCK_OVERLAP = 4;
+const BLOCK_STRIDE = 2;
+// Legacy smart erase samples this far around the box, every few pixels
+const AVERAGE_MARGIN = 10;
+const AVERAGE_STRIDE = 3;
+
+const analysisMargin = (width: number, height: number) => Math.max(5, Math.min(width, height) * 0.3);
+const patchMargin = (width: number, height: number) => Math.max(20, Math.min(width, height) * 0.5);
+
+// The box plus as much of its surroundings as the samplers need, clipped to the canvas.
+// Null when the box lies outside the canvas.
+export function regionBounds(canvasWidth: number, canvasHeight: number, x0: number, y0: number, x1: number, y1: number): RegionBounds | null {
+  const left = Math.max(0, Math.floor(x0));
+  const top = Math.max(0, Math.floor(y0));
+  const right = Math.min(canvasWidth, Math.ceil(x1));
+  const bottom = Math.min(canvasHeight, Math.ceil(y1));
+  if (right <= left || bottom <= top) return null;
+
+  const width = right - left;
+  const height = bottom - top;
+  const margin = Math.ceil(Math.max(analysisMargin(width, height), patchMargin(width, height), inpaintMargin(width, height), AVERAGE_MARGIN));
+  const x = Math.max(0, left - margin);
+  const y = Math.max(0, top - margin);
+  return {
+    x,
+    y,
+    width: Math.min(canvasWidth, right + margin) - x,
+    height: Math.min(canvasHeight, bottom + margin) - y,
+    hole: { x0: left - x, y0: top - y, x1: right - x, y1: bottom - y }
+  };
+}
+
+// Read a box and its surroundings from the canvas in one call
+export function readRegion(ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): BackgroundRegion | null {
+  const bounds = regionBounds(ctx.canvas.width, ctx.canvas.height, x0, y0, x1, y1);
+  if (!bounds) return null;
+  return { x: bounds.x, y: bounds.y, image: ctx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height), hole: bounds.hole };
+}
+
+const inside = (rect: PixelRect, x: number, y: number) => x >= rect.x0 && x < rect.x1 && y >= rect.y0 && y < rect.y1;
+
+// Pixels in a band around the box, skipping the 2px right next to it where anti-aliased
+// text still bleeds out. Transparent pixels (outside a rotated scratch canvas) are ignored.
+export function sampleBorder(image: ImageData, hole: PixelRect): Sample[] {
+  const { width, height, data } = image;
+  const margin = analysisMargin(hole.x1 - hole.x0, hole.y1 - hole.y0);
+  const gap = { x0: hole.x0 - 2, y0: hole.y0 - 2, x1: hole.x1 + 2, y1: hole.y1 + 2 };
+  const samples: Sample[] = [];
+  const step = 2;
+
+  for (let y = Math.ceil(hole.y0 - margin); y < hole.y1 + margin; y += step) {
+    if (y < 0 || y >= height) continue;
+    for (let x = Math.ceil(hole.x0 - margin); x < hole.x1 + margin; x += step) {
+      if (x < 0 || x >= width || inside(gap, x, y)) continue;
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      samples.push({ x, y, r: data[i], g: data[i + 1], b: data[i + 2] });
+    }
+  }
+  return samples;
+}
+
+export function classifyBackground(samples: Sample[]): { type: BackgroundType; color: Color } {
+  if (samples.length === 0) return { type: 'solid', color: WHITE };
+
+  let r = 0, g = 0, b = 0;
+  samples.forEach(s => {
+    r += s.r;
+    g += s.g;
+    b += s.b;
+  });
+  const mean: Color = [r / samples.length, g / samples.length, b / samples.length];
+
+  let variance = 0;
+  samples.forEach(s => {
+    variance += (s.r - mean[0]) ** 2 + (s.g - mean[1]) ** 2 + (s.b - mean[2]) ** 2;
+  });
+  variance /= samples.length * 3;
+
+  const color = mean.map(Math.round) as Color;
+  if (variance < SOLID_VARIANCE) return { type: 'solid', color };
+  return { type: variance < GRADIENT_VARIANCE ? 'gradient' : 'textured', color };
+}
+
+function fillSolid(image: ImageData, hole: PixelRect, color: Color) {
+  const { width, data } = image;
+  for (let y = hole.y0; y < hole.y1; y++) {
+    for (let x = hole.x0; x < hole.x1; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = color[0];
+      data[i + 1] = color[1];
+      data[i + 2] = color[2];
+      data[i + 3] = 255;
+    }
+  }
+}
+
+// Inverse-distance weighting of the border samples, so shading runs smoothly across the box
+function fillGradient(image: ImageData, hole: PixelRect, samples: Sample[]) {
+  const { width, data } = image;
+  const xs = Float64Array.from(samples, s => s.x);
+  const ys = Float64Array.from(samples, s => s.y);
+  for (let y = hole.y0; y < hole.y1; y++) {
+    for (let x = hole.x0; x < hole.x1; x++) {
+      let total = 0, r = 0, g = 0, b = 0;
+      for (let s = 0; s < samples.length; s++) {
+        const weight = 1 / (Math.hypot(x - xs[s], y - ys[s]) + 1);
+        total += weight;
+        r += samples[s].r * weight;
+        g += samples[s].g * weight;
+        b += samples[s].b * weight;
+      }
+      const i = (y * width + x) * 4;
+      data[i] = Math.round(r / total);
+      data[i + 1] = Math.round(g / total);
+      data[i + 2] = Math.round(b / total);
+      data[i + 3] = 255;
+    }
+  }
+}
+
+// Tile the box with blocks copied from around it, each chosen so the strip above and to
+// its left matches what is already there. Returns false when no block fits outside the box.
+function fillPatches(image: ImageData, hole: PixelRect): boolean {
+  const { width, height, data } = image;
+  const margin = patchMargin(hole.x1 - hole.x0, hole.y1 - hole.y0);
+  const size = BLOCK_SIZE;
+  const overlap = BLOCK_OVERLAP;
+
+  // Candidate blocks, with their matching strip, lying wholly outside the box
+  const candidates: number[] = [];
+  const reach = { x0: hole.x0 - size + 1, y0: hole.y0 - size + 1, x1: hole.x1 + overlap, y1: hole.y1 + overlap };
+  for (let y = Math.max(overlap, Math.ceil(hole.y0 - margin)); y + size <= Math.min(height, hole.y1 + margin); y += BLOCK_STRIDE) {
+    for (let x = Math.max(overlap, Math.ceil(hole.x0 - margin)); x + size <= Math.min(width, hole.x1 + margin); x += BLOCK_STRIDE) {
+      if (inside(reach, x, y)) continue;
+      candidates.push(y * width + x);
+    }
+  }
+  if (candidates.length === 0) return false;
+
+  // Squared difference over the L-shaped strip above and left of two blocks
+  const stripDistance = (target: number, source: number, w: number, h: number, limit: number) => {
+    let sum = 0;
+    for (let dy = -overlap; dy < h; dy++) {
+      for (let dx = -overlap; dx < (dy < 0 ? w : 0); dx++) {
+        const t = (target + dy * width + dx) * 4;
+        const s = (source + dy * width + dx) * 4;
+        if (t < 0 || t >= data.length || data[t + 3] === 0) continue;
+        sum += (data[t] - data[s]) ** 2 + (data[t + 1] - data[s + 1]) ** 2 + (data[t + 2] - data[s + 2]) ** 2;
+      }
+      if (sum >= limit) return sum;
+    }
+    return sum;
+  };
+
+  for (let by = hole.y0; by < hole.y1; by += size) {
+    for (let bx = hole.x0; bx < hole.x1; bx += size) {
+      const w = Math.min(size, hole.x1 - bx);
+      const h = Math.min(size, hole.y1 - by);
+      const target = by * width + bx;
+
+      let best = candidates[0];
+      let bestDistance = Infinity;
+      candidates.forEach(source => {
+        const d = stripDistance(target, source, w, h, bestDistance);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = source;
+        }
+      });
+
+      for (let dy = 0; dy < h; dy++) {
+        const t = (target + dy * width) * 4;
+        const s = (best + dy * width) * 4;
+        data.copyWithin(t, s, s + w * 4);
+      }
+    }
+  }
+  return true;
+}
+
+// Legacy smart erase: the average color around the box
+function averageColor(image: ImageData, hole: PixelRect): Color {
+  const { width, height, data } = image;
+  let r = 0, g = 0, b = 0, count = 0;
+  for (let y = hole.y0 - AVERAGE_MARGIN; y <= hole.y1 + AVERAGE_MARGIN; y += AVERAGE_STRIDE) {
+    if (y < 0 || y >= height) continue;
+    for (let x = hole.x0 - AVERAGE_MARGIN; x <= hole.x1 + AVERAGE_MARGIN; x += AVERAGE_STRIDE) {
+      if (x < 0 || x >= width || inside(hole, x, y)) continue;
+      const i = (y * width + x) * 4;
+      if (data[i + 3] === 0) continue;
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
+  }
+  return count > 0 ? [Math.round(r / count), Math.round(g / count), Math.round(b / count)] : WHITE;
+}
+
+function fillTextured(image: ImageData, hole: PixelRect, samples: Sample[], textureFill: TextureFill, mask: GlyphMask | null) {
+  if (textureFill === 'inpaint') {
+    const { width } = image;
+    const holeMask = new Uint8Array(width * image.height);
+    for (let y = hole.y0; y < hole.y1; y++) {
+      for (let x = hole.x0; x < hole.x1; x++) {
+        if (mask && !mask.values[(y - mask.y) * mask.width + x - mask.x]) continue;
+        holeMask[y * width + x] = 1;
+      }
+    }
+    if (inpaint(image, holeMask)) return;
+    console.warn('Inpainting found no surroundings to copy from, using block patches');
+  }
+  if (!fillPatches(image, hole)) fillGradient(image, hole, samples);
+}
+
+// Erase the box and cut it out of the region's buffer as a patch to lay over the image:
+// the rebuilt pixels, with the pixels the glyph mask kept left transparent
+export function erasePatch(region: BackgroundRegion, options: EraseOptions): { patch: ImageData; result: EraseResult } {
+  const { image, hole } = region;
+  const mask = options.glyphMaskDilation !== null ? buildGlyphMask(image, hole, options.glyphMaskDilation) : null;
+  const original = mask ? image.data.slice() : null;
+  let type: BackgroundType | null = null;
+
+  if (options.method === 'matcher') {
+    const samples = sampleBorder(image, hole);
+    const background = classifyBackground(samples);
+    type = background.type;
+    if (type === 'solid') fillSolid(image, hole, background.color);
+    else if (type === 'gradient') fillGradient(image, hole, samples);
+    else fillTextured(image, hole, samples, options.textureFill, mask);
+  } else {
+    fillSolid(image, hole, options.method === 'average' ? averageColor(image, hole) : WHITE);
+  }
+
+  if (mask && original) restoreUnmasked(image, original, mask);
+
+  const width = hole.x1 - hole.x0;
+  const height = hole.y1 - hole.y0;
+  const patch = new ImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    const row = ((hole.y0 + y) * image.width + hole.x0) * 4;
+    patch.data.set(image.data.subarray(row, row + width * 4), y * width * 4);
+    if (!mask) continue;
+    for (let x = 0; x < width; x++) {
+      if (!mask.values[y * width + x]) patch.data[(y * width + x) * 4 + 3] = 0;
+    }
+  }
+  return { patch, result: { type, masked: mask !== null } };
+}
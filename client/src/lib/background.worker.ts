@@ -0,0 +1,30 @@
+import { erasePatch } from "./background";
+import type { EraseJobReply, EraseJobRequest } from "./background-eraser";
+
+// Worker side of BackgroundEraser: unpack the region onto an OffscreenCanvas, rebuild the
+// box there and send the patch back as a bitmap.
+
+self.onmessage = (event: MessageEvent<EraseJobRequest>) => {
+  const { id, bitmap, hole, options } = event.data;
+  let reply: EraseJobReply;
+  try {
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const { patch, result } = erasePatch({ x: 0, y: 0, image, hole }, options);
+    canvas.width = patch.width;
+    canvas.height = patch.height;
+    ctx.putImageData(patch, 0, 0);
+
+    const erased = canvas.transferToImageBitmap();
+    reply = { id, bitmap: erased, result };
+    self.postMessage(reply, { transfer: [erased] });
+  } catch (error) {
+    reply = { id, error: error instanceof Error ? error.message : String(error) };
+    self.postMessage(reply);
+  }
+};
@@ -0,0 +1,402 @@
+import { getGroupWords, type OCRBaseline, type OCRData, type OCRTextGroup, type OCRWord } from "./ocr";
+import { getOuterBBox, hasRotation } from "./orientation";
+
+// Exports of the recognized (and corrected) text with its geometry. All coordinates are
+// original image pixels; tilted boxes are written as the axis-aligned box around them.
+
+export type ExportFormat = 'hocr' | 'alto' | 'json' | 'json-schema' | 'text';
+
+export interface ExportSource {
+  data: OCRData;
+  imageName: string;
+  width: number;
+  height: number;
+}
+
+interface LayoutLine { line: OCRTextGroup; words: OCRWord[] }
+interface LayoutParagraph { paragraph: OCRTextGroup; lines: LayoutLine[] }
+interface LayoutBlock { block: OCRTextGroup; paragraphs: LayoutParagraph[] }
+
+type BBox = OCRWord['bbox'];
+
+const spanning = (boxes: BBox[]): BBox => ({
+  x0: Math.min(...boxes.map(b => b.x0)),
+  y0: Math.min(...boxes.map(b => b.y0)),
+  x1: Math.max(...boxes.map(b => b.x1)),
+  y1: Math.max(...boxes.map(b => b.y1))
+});
+
+// Stand-in group for words that ended up outside any line, e.g. after a region scan pruned it
+const wordGroup = (id: string, words: OCRWord[]): OCRTextGroup => ({
+  id,
+  text: words.map(word => word.text).join(' '),
+  confidence: Math.min(...words.map(word => word.confidence)),
+  bbox: spanning(words.map(word => getOuterBBox(word))),
+  wordIds: words.map(word => word.id)
+});
+
+// Nest lines in paragraphs and paragraphs in blocks by the words they share, keeping
+// Tesseract's reading order
+function buildLayout(data: OCRData): LayoutBlock[] {
+  const placedParagraphs = new Set<string>();
+  const placedLines = new Set<string>();
+  const placedWords = new Set<string>();
+
+  const layout = data.blocks.map(block => ({
+    block,
+    paragraphs: data.paragraphs
+      .filter(paragraph => !placedParagraphs.has(paragraph.id) && paragraph.wordIds.some(id => block.wordIds.includes(id)))
+      .map(paragraph => {
+        placedParagraphs.add(paragraph.id);
+        return {
+          paragraph,
+          lines: data.lines
+            .filter(line => !placedLines.has(line.id) && line.wordIds.some(id => paragraph.wordIds.includes(id)))
+            .map(line => {
+              placedLines.add(line.id);
+              const words = getGroupWords(data, line).filter(word => !placedWords.has(word.id));
+              words.forEach(word => placedWords.add(word.id));
+              return { line, words };
+            })
+            .filter(line => line.words.length > 0)
+        };
+      })
+      .filter(paragraph => paragraph.lines.length > 0)
+  })).filter(block => block.paragraphs.length > 0);
+
+  const orphans = data.words.filter(word => !placedWords.has(word.id));
+  if (orphans.length > 0) {
+    const lines = orphans.map(word => ({ line: wordGroup(`line_${word.id}`, [word]), words: [word] }));
+    const group = wordGroup('block_unassigned', orphans);
+    layout.push({ block: group, paragraphs: [{ paragraph: { ...group, id: 'paragraph_unassigned' }, lines }] });
+  }
+  return layout;
+}
+
+const outerBox = (box: { bbox: BBox; angle?: number }): BBox => {
+  const { x0, y0, x1, y1 } = hasRotation(box) ? getOuterBBox(box) : box.bbox;
+  return { x0: Math.round(x0), y0: Math.round(y0), x1: Math.round(x1), y1: Math.round(y1) };
+};
+
+// Clockwise angle in degrees to one decimal, or undefined for upright text
+const angleDegrees = (box: { bbox: BBox; angle?: number }): number | undefined =>
+  hasRotation(box) ? Math.round(((box.angle || 0) * 180) / Math.PI * 10) / 10 : undefined;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const indent = (depth: number) => '  '.repeat(depth);
+
+// Plain text in reading order: words joined by spaces, one line per line, blank lines between paragraphs
+export function toPlainText({ data }: ExportSource): string {
+  return buildLayout(data)
+    .flatMap(({ paragraphs }) => paragraphs)
+    .map(({ lines }) => lines.map(({ words }) => words.map(word => word.text).join(' ')).join('\n'))
+    .join('\n\n') + '\n';
+}
+
+// hOCR 1.2 (https://kba.github.io/hocr-spec/1.2/)
+export function toHOCR({ data, imageName, width, height }: ExportSource): string {
+  const title = (box: { bbox: BBox; angle?: number }, extra: string[] = []) => {
+    const { x0, y0, x1, y1 } = outerBox(box);
+    const angle = angleDegrees(box);
+    // hOCR measures textangle counter-clockwise
+    return [`bbox ${x0} ${y0} ${x1} ${y1}`, ...(angle !== undefined ? [`textangle ${-angle}`] : []), ...extra].join('; ');
+  };
+  // Baseline as slope and offset from the bottom-left corner of the line box
+  const baselineProp = (line: OCRTextGroup, baseline?: OCRBaseline) => {
+    if (!baseline || hasRotation(line)) return [];
+    const span = baseline.x1 - baseline.x0;
+    const slope = span !== 0 ? (baseline.y1 - baseline.y0) / span : 0;
+    const offset = baseline.y0 + slope * (line.bbox.x0 - baseline.x0) - line.bbox.y1;
+    return [`baseline ${slope.toFixed(3)} ${Math.round(offset)}`];
+  };
+
+  const body = buildLayout(data).map(({ block, paragraphs }, b) => [
+    `${indent(3)}<div class="ocr_carea" id="block_1_${b + 1}" title="${title(block)}">`,
+    ...paragraphs.map(({ paragraph, lines }, p) => [
+      `${indent(4)}<p class="ocr_par" id="par_1_${b + 1}_${p + 1}" title="${title(paragraph)}">`,
+      ...lines.map(({ line, words }, l) => [
+        `${indent(5)}<span class="ocr_line" id="line_1_${b + 1}_${p + 1}_${l + 1}" title="${title(line, baselineProp(line, line.baseline))}">`,
+        ...words.map((word, w) =>
+          `${indent(6)}<span class="ocrx_word" id="word_1_${b + 1}_${p + 1}_${l + 1}_${w + 1}" title="${title(word, [`x_wconf ${Math.round(word.confidence)}`])}">${escapeXml(word.text)}</span>`
+        ),
+        `${indent(5)}</span>`
+      ]).flat(),
+      `${indent(4)}</p>`
+    ]).flat(),
+    `${indent(3)}</div>`
+  ]).flat();
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">',
+    `${indent(1)}<head>`,
+    `${indent(2)}<title>${escapeXml(imageName)}</title>`,
+    `${indent(2)}<meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>`,
+    `${indent(2)}<meta name="ocr-system" content="tesseract.js"/>`,
+    `${indent(2)}<meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word ocrp_wconf"/>`,
+    `${indent(1)}</head>`,
+    `${indent(1)}<body>`,
+    `${indent(2)}<div class="ocr_page" id="page_1" title="image &quot;${escapeXml(imageName)}&quot;; bbox 0 0 ${width} ${height}; ppageno 0">`,
+    ...body,
+    `${indent(2)}</div>`,
+    `${indent(1)}</body>`,
+    '</html>',
+    ''
+  ].join('\n');
+}
+
+// ALTO 4 (https://www.loc.gov/standards/alto/). Tesseract blocks become ComposedBlocks
+// holding one TextBlock per paragraph, since ALTO has no paragraph element.
+export function toALTO({ data, imageName, width, height }: ExportSource): string {
+  const position = (box: { bbox: BBox; angle?: number }) => {
+    const { x0, y0, x1, y1 } = outerBox(box);
+    return `HPOS="${x0}" VPOS="${y0}" WIDTH="${x1 - x0}" HEIGHT="${y1 - y0}"`;
+  };
+  // ALTO measures ROTATION counter-clockwise
+  const rotation = (box: { bbox: BBox; angle?: number }) => {
+    const angle = angleDegrees(box);
+    return angle !== undefined ? ` ROTATION="${-angle}"` : '';
+  };
+
+  const body = buildLayout(data).map(({ block, paragraphs }, b) => [
+    `${indent(4)}<ComposedBlock ID="block_${b + 1}" ${position(block)}>`,
+    ...paragraphs.map(({ paragraph, lines }, p) => [
+      `${indent(5)}<TextBlock ID="par_${b + 1}_${p + 1}" ${position(paragraph)}${rotation(lines[0].line)}>`,
+      ...lines.map(({ line, words }, l) => [
+        `${indent(6)}<TextLine ID="line_${b + 1}_${p + 1}_${l + 1}" ${position(line)}>`,
+        ...words.flatMap((word, w) => {
+          const string = `${indent(7)}<String ID="string_${b + 1}_${p + 1}_${l + 1}_${w + 1}" ${position(word)} WC="${(word.confidence / 100).toFixed(2)}" CONTENT="${escapeXml(word.text)}"/>`;
+          return w < words.length - 1 ? [string, `${indent(7)}<SP/>`] : [string];
+        }),
+        `${indent(6)}</TextLine>`
+      ]).flat(),
+      `${indent(5)}</TextBlock>`
+    ]).flat(),
+    `${indent(4)}</ComposedBlock>`
+  ]).flat();
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/alto/v4/alto-4-2.xsd">',
+    `${indent(1)}<Description>`,
+    `${indent(2)}<MeasurementUnit>pixel</MeasurementUnit>`,
+    `${indent(2)}<sourceImageInformation>`,
+    `${indent(3)}<fileName>${escapeXml(imageName)}</fileName>`,
+    `${indent(2)}</sourceImageInformation>`,
+    `${indent(2)}<OCRProcessing ID="ocr_1">`,
+    `${indent(3)}<ocrProcessingStep>`,
+    `${indent(4)}<processingSoftware>`,
+    `${indent(5)}<softwareName>tesseract.js</softwareName>`,
+    `${indent(4)}</processingSoftware>`,
+    `${indent(3)}</ocrProcessingStep>`,
+    `${indent(2)}</OCRProcessing>`,
+    `${indent(1)}</Description>`,
+    `${indent(1)}<Layout>`,
+    `${indent(2)}<Page ID="page_1" PHYSICAL_IMG_NR="1" WIDTH="${width}" HEIGHT="${height}">`,
+    `${indent(3)}<PrintSpace HPOS="0" VPOS="0" WIDTH="${width}" HEIGHT="${height}">`,
+    ...body,
+    `${indent(3)}</PrintSpace>`,
+    `${indent(2)}</Page>`,
+    `${indent(1)}</Layout>`,
+    '</alto>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * JSON export, described by `ocrExportJsonSchema`.
+ * Boxes are axis-aligned {x0, y0, x1, y1} in image pixels; `angle` is the
+ * clockwise tilt of the text in degrees and is omitted for upright text.
+ */
+export interface OCRExportDocument {
+  format: 'screentext-ocr';
+  version: 1;
+  image: { name: string; width: number; height: number };
+  text: string;
+  blocks: {
+    id: string;
+    bbox: BBox;
+    paragraphs: {
+      id: string;
+      bbox: BBox;
+      lines: {
+        id: string;
+        text: string;
+        bbox: BBox;
+        angle?: number;
+        baseline?: OCRBaseline;
+        words: {
+          id: string;
+          text: string;
+          originalText: string;
+          edited: boolean;
+          confidence: number;
+          bbox: BBox;
+          angle?: number;
+        }[];
+      }[];
+    }[];
+  }[];
+}
+
+export function toJSONDocument(source: ExportSource): OCRExportDocument {
+  return {
+    format: 'screentext-ocr',
+    version: 1,
+    image: { name: source.imageName, width: source.width, height: source.height },
+    text: toPlainText(source),
+    blocks: buildLayout(source.data).map(({ block, paragraphs }) => ({
+      id: block.id,
+      bbox: outerBox(block),
+      paragraphs: paragraphs.map(({ paragraph, lines }) => ({
+        id: paragraph.id,
+        bbox: outerBox(paragraph),
+        lines: lines.map(({ line, words }) => ({
+          id: line.id,
+          text: words.map(word => word.text).join(' '),
+          bbox: outerBox(line),
+          angle: angleDegrees(line),
+          baseline: line.baseline,
+          words: words.map(word => ({
+            id: word.id,
+            text: word.text,
+            originalText: word.originalText ?? word.text,
+            edited: !!word.isEdited && word.text !== word.originalText,
+            confidence: Math.round(word.confidence * 10) / 10,
+            bbox: outerBox(word),
+            angle: angleDegrees(word)
+          }))
+        }))
+      }))
+    }))
+  };
+}
+
+const bboxSchema = {
+  type: 'object',
+  description: 'Axis-aligned box in image pixels',
+  required: ['x0', 'y0', 'x1', 'y1'],
+  properties: {
+    x0: { type: 'number' },
+    y0: { type: 'number' },
+    x1: { type: 'number' },
+    y1: { type: 'number' }
+  }
+};
+
+const angleSchema = {
+  type: 'number',
+  description: 'Clockwise tilt of the text in degrees; omitted for upright text'
+};
+
+// JSON Schema (draft 2020-12) of OCRExportDocument, offered alongside the JSON export
+export const ocrExportJsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'ScreenText Editor OCR export',
+  type: 'object',
+  required: ['format', 'version', 'image', 'text', 'blocks'],
+  properties: {
+    format: { const: 'screentext-ocr' },
+    version: { const: 1 },
+    image: {
+      type: 'object',
+      description: 'The image the coordinates refer to',
+      required: ['name', 'width', 'height'],
+      properties: {
+        name: { type: 'string' },
+        width: { type: 'integer' },
+        height: { type: 'integer' }
+      }
+    },
+    text: { type: 'string', description: 'All text in reading order, as in the plain text export' },
+    blocks: {
+      type: 'array',
+      description: 'Text blocks in reading order',
+      items: {
+        type: 'object',
+        required: ['id', 'bbox', 'paragraphs'],
+        properties: {
+          id: { type: 'string' },
+          bbox: bboxSchema,
+          paragraphs: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'bbox', 'lines'],
+              properties: {
+                id: { type: 'string' },
+                bbox: bboxSchema,
+                lines: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    required: ['id', 'text', 'bbox', 'words'],
+                    properties: {
+                      id: { type: 'string' },
+                      text: { type: 'string', description: 'Current text of the line, including corrections' },
+                      bbox: bboxSchema,
+                      angle: angleSchema,
+                      baseline: {
+                        type: 'object',
+                        description: 'Baseline from (x0, y0) to (x1, y1) in image pixels',
+                        required: ['x0', 'y0', 'x1', 'y1'],
+                        properties: {
+                          x0: { type: 'number' },
+                          y0: { type: 'number' },
+                          x1: { type: 'number' },
+                          y1: { type: 'number' }
+                        }
+                      },
+                      words: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          required: ['id', 'text', 'originalText', 'edited', 'confidence', 'bbox'],
+                          properties: {
+                            id: { type: 'string' },
+                            text: { type: 'string', description: 'Current text, including corrections' },
+                            originalText: { type: 'string', description: 'Text as recognized' },
+                            edited: { type: 'boolean', description: 'Whether the text was replaced in the editor' },
+                            confidence: { type: 'number', minimum: 0, maximum: 100, description: 'Recognition confidence in percent' },
+                            bbox: bboxSchema,
+                            angle: angleSchema
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+export const exportFormats: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  hocr: { label: 'hOCR', extension: 'hocr', mimeType: 'text/html' },
+  alto: { label: 'ALTO XML', extension: 'alto.xml', mimeType: 'application/xml' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  'json-schema': { label: 'JSON schema', extension: 'schema.json', mimeType: 'application/schema+json' },
+  text: { label: 'Plain text', extension: 'txt', mimeType: 'text/plain' }
+};
+
+export function exportOCRData(source: ExportSource, format: ExportFormat): string {
+  switch (format) {
+    case 'hocr':
+      return toHOCR(source);
+    case 'alto':
+      return toALTO(source);
+    case 'json':
+      return JSON.stringify(toJSONDocument(source), null, 2);
+    case 'json-schema':
+      return JSON.stringify(ocrExportJsonSchema, null, 2);
+    case 'text':
+      return toPlainText(source);
+  }
+}
@@ -0,0 +1,93 @@
+import { getGroupText, type OCRData, type OCRWord } from "./ocr";
+
+export type FindScope = 'word' | 'line';
+
+export interface FindOptions {
+  useRegex: boolean;
+  matchCase: boolean;
+  wholeWord: boolean;
+  preserveCase: boolean;
+  scope: FindScope;
+}
+
+export const defaultFindOptions: FindOptions = {
+  useRegex: false,
+  matchCase: false,
+  wholeWord: false,
+  preserveCase: true,
+  scope: 'word',
+};
+
+// A word or line whose current text matches the search
+export interface FindMatch {
+  id: string;
+  text: string;
+  bbox: OCRWord['bbox'];
+  angle?: number;
+}
+
+const NON_LETTERS = new RegExp('[^\\p{L}]', 'gu');
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Compile the search into a global regex. Throws a SyntaxError for an invalid pattern.
+export function buildFindPattern(query: string, options: FindOptions): RegExp {
+  const source = options.useRegex ? query : escapeRegex(query);
+  // \b only knows ASCII, so look for letters and digits of any script around the match
+  const bounded = options.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+  return new RegExp(bounded, options.matchCase ? 'gu' : 'giu');
+}
+
+const hasMatch = (text: string, pattern: RegExp) =>
+  Array.from(text.matchAll(pattern)).some(match => match[0].length > 0);
+
+export function findMatches(data: OCRData, pattern: RegExp, scope: FindScope): FindMatch[] {
+  if (scope === 'line') {
+    return data.lines
+      .map(line => ({ id: line.id, text: getGroupText(data, line), bbox: line.bbox, angle: line.angle }))
+      .filter(line => hasMatch(line.text, pattern));
+  }
+
+  return data.words
+    .filter(word => hasMatch(word.text, pattern))
+    .map(word => ({ id: word.id, text: word.text, bbox: word.bbox, angle: word.angle }));
+}
+
+// Give the replacement the case pattern of the text it replaces: ACME → GLOBEX,
+// acme → globex, Acme → Globex. Mixed case like "AcMe" keeps the replacement as typed.
+export function matchCase(source: string, replacement: string): string {
+  const letters = source.replace(NON_LETTERS, '');
+  if (!letters || letters.toUpperCase() === letters.toLowerCase()) return replacement;
+
+  if (letters === letters.toLowerCase()) return replacement.toLowerCase();
+  if (letters === letters.toUpperCase() && letters.length > 1) return replacement.toUpperCase();
+
+  const rest = letters.slice(1);
+  if (letters[0] === letters[0].toUpperCase() && rest === rest.toLowerCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1).toLowerCase();
+  }
+  return replacement;
+}
+
+// Expand $&, $1…$99 and $<name> in a regex replacement, like String.prototype.replace
+function expandReplacement(replacement: string, match: string, groups: (string | undefined)[], named?: Record<string, string>) {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match;
+    if (name !== undefined) return named?.[name] ?? '';
+    const index = parseInt(ref, 10);
+    return index >= 1 && index <= groups.length ? groups[index - 1] ?? '' : token;
+  });
+}
+
+export function replaceMatches(text: string, pattern: RegExp, replacement: string, options: FindOptions): string {
+  return text.replace(pattern, (match: string, ...args: unknown[]) => {
+    if (match.length === 0) return match;
+
+    // The callback gets the groups, then offset and input, then named groups if there are any
+    const named = typeof args[args.length - 1] === 'object' ? (args.pop() as Record<string, string>) : undefined;
+    const groups = args.slice(0, -2) as (string | undefined)[];
+    const expanded = options.useRegex ? expandReplacement(replacement, match, groups, named) : replacement;
+    return options.preserveCase ? matchCase(match, expanded) : expanded;
+  });
+}
@@ -0,0 +1,231 @@
+import type { OCRWord } from "./ocr";
+import { getBoxCenter } from "./orientation";
+import { defaultTypography, toCanvasFont, type FontStyle, type Typography } from "./typography";
+
+// Font identification by glyph comparison: the recognized text is rendered in every
+// candidate font and compared with the word's original pixels. Both are reduced to an
+// ink-coverage map cropped to the ink, scaled to the same size and diffed, so the result
+// does not depend on text color, background or the exact size of the original.
+
+export interface FontCandidate {
+  fontFamily: string;
+  fontWeight: number;
+  fontStyle: FontStyle;
+}
+
+export interface FontMatch extends FontCandidate {
+  fontSize: number; // Pixels that reproduce the original ink height
+  similarity: number; // 0–1, higher is closer
+}
+
+// Height both coverage maps are compared at
+const SAMPLE_HEIGHT = 32;
+const MAX_SAMPLE_WIDTH = 512;
+// Candidates are rendered this large so thin strokes survive downscaling
+const RENDER_SIZE = 96;
+// Coverage below this is treated as background when finding the ink's extent
+const INK_THRESHOLD = 0.3;
+// How strongly a different width-to-height ratio counts against a candidate
+const ASPECT_WEIGHT = 0.5;
+
+const candidateWeights = [400, 700];
+const candidateStyles: FontStyle[] = ['normal', 'italic'];
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+interface Coverage {
+  width: number;
+  height: number;
+  values: Float32Array; // 0 background … 1 full ink
+}
+
+interface InkBounds {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width));
+  canvas.height = Math.max(1, Math.ceil(height));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return { canvas, ctx };
+}
+
+// Ink coverage of a crop of the original. The background is the median border
+// luminance, so light-on-dark text works the same as dark-on-light.
+function imageCoverage(data: ImageData): Coverage {
+  const { width, height } = data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = luminance(data.data[i * 4], data.data[i * 4 + 1], data.data[i * 4 + 2]);
+  }
+
+  const border: number[] = [];
+  for (let x = 0; x < width; x++) border.push(gray[x], gray[(height - 1) * width + x]);
+  for (let y = 0; y < height; y++) border.push(gray[y * width], gray[y * width + width - 1]);
+  border.sort((a, b) => a - b);
+  const background = border[Math.floor(border.length / 2)];
+
+  let contrast = 0;
+  gray.forEach(value => {
+    contrast = Math.max(contrast, Math.abs(value - background));
+  });
+
+  const values = new Float32Array(gray.length);
+  if (contrast > 0) {
+    gray.forEach((value, i) => {
+      values[i] = Math.abs(value - background) / contrast;
+    });
+  }
+  return { width, height, values };
+}
+
+// Ink coverage of black text rendered on white
+function renderCoverage(data: ImageData): Coverage {
+  const values = new Float32Array(data.width * data.height);
+  for (let i = 0; i < values.length; i++) values[i] = 1 - data.data[i * 4] / 255;
+  return { width: data.width, height: data.height, values };
+}
+
+function findInkBounds(coverage: Coverage): InkBounds | null {
+  const { width, height, values } = coverage;
+  let x0 = width;
+  let y0 = height;
+  let x1 = -1;
+  let y1 = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (values[y * width + x] < INK_THRESHOLD) continue;
+      x0 = Math.min(x0, x);
+      y0 = Math.min(y0, y);
+      x1 = Math.max(x1, x);
+      y1 = Math.max(y1, y);
+    }
+  }
+  return x1 < 0 ? null : { x0, y0, x1: x1 + 1, y1: y1 + 1 };
+}
+
+// Bilinear resample of the inked area to the comparison size
+function resample(coverage: Coverage, bounds: InkBounds, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height);
+  const scaleX = (bounds.x1 - bounds.x0) / width;
+  const scaleY = (bounds.y1 - bounds.y0) / height;
+  const at = (x: number, y: number) => {
+    const cx = Math.min(coverage.width - 1, Math.max(0, x));
+    const cy = Math.min(coverage.height - 1, Math.max(0, y));
+    return coverage.values[cy * coverage.width + cx];
+  };
+
+  for (let y = 0; y < height; y++) {
+    const sy = bounds.y0 + (y + 0.5) * scaleY - 0.5;
+    const y0 = Math.floor(sy);
+    const fy = sy - y0;
+    for (let x = 0; x < width; x++) {
+      const sx = bounds.x0 + (x + 0.5) * scaleX - 0.5;
+      const x0 = Math.floor(sx);
+      const fx = sx - x0;
+      const top = at(x0, y0) * (1 - fx) + at(x0 + 1, y0) * fx;
+      const bottom = at(x0, y0 + 1) * (1 - fx) + at(x0 + 1, y0 + 1) * fx;
+      out[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return out;
+}
+
+// The word's pixels turned upright, so tilted text compares like level text
+function cropUpright(image: CanvasImageSource, box: OCRWord): ImageData {
+  const { x0, y0, x1, y1 } = box.bbox;
+  const { ctx } = createCanvas(x1 - x0, y1 - y0);
+  const center = getBoxCenter(box);
+  ctx.translate(-x0, -y0);
+  if (box.angle) {
+    ctx.translate(center.x, center.y);
+    ctx.rotate(-box.angle);
+    ctx.translate(-center.x, -center.y);
+  }
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+}
+
+function renderText(text: string, candidate: FontCandidate): Coverage {
+  const typography: Typography = { ...defaultTypography, ...candidate };
+  const font = toCanvasFont(typography, RENDER_SIZE);
+  const { ctx: measure } = createCanvas(1, 1);
+  measure.font = font;
+  const padding = RENDER_SIZE / 2;
+  const { ctx } = createCanvas(measure.measureText(text).width + padding * 2, RENDER_SIZE * 2);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.fillStyle = '#000000';
+  ctx.font = font;
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillText(text, padding, RENDER_SIZE * 1.4);
+  return renderCoverage(ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height));
+}
+
+// A font the system lacks silently falls back to another, which would then be matched
+// under the wrong name. It is installed if it changes the width of a sample against
+// either generic fallback.
+export function isFontAvailable(fontFamily: string): boolean {
+  const { ctx } = createCanvas(1, 1);
+  const sample = 'mmmmmmmmmmlli1WQ@#';
+  return ['monospace', 'serif'].some(fallback => {
+    ctx.font = `72px ${fallback}`;
+    const fallbackWidth = ctx.measureText(sample).width;
+    ctx.font = `72px "${fontFamily}", ${fallback}`;
+    return ctx.measureText(sample).width !== fallbackWidth;
+  });
+}
+
+// Rank every available family in each candidate weight and style by how closely the
+// text rendered in it matches the word's original pixels. Best match first.
+export function matchFont(image: CanvasImageSource, box: OCRWord, text: string, fontFamilies: string[]): FontMatch[] {
+  if (!text.trim()) return [];
+
+  const original = imageCoverage(cropUpright(image, box));
+  const originalInk = findInkBounds(original);
+  if (!originalInk) return [];
+
+  const inkWidth = originalInk.x1 - originalInk.x0;
+  const inkHeight = originalInk.y1 - originalInk.y0;
+  const aspect = inkWidth / inkHeight;
+  const height = SAMPLE_HEIGHT;
+  const width = Math.max(1, Math.min(MAX_SAMPLE_WIDTH, Math.round(height * aspect)));
+  const target = resample(original, originalInk, width, height);
+
+  const matches: FontMatch[] = [];
+  fontFamilies.filter(isFontAvailable).forEach(fontFamily => {
+    candidateWeights.forEach(fontWeight => {
+      candidateStyles.forEach(fontStyle => {
+        const candidate = { fontFamily, fontWeight, fontStyle };
+        const rendered = renderText(text, candidate);
+        const ink = findInkBounds(rendered);
+        if (!ink) return;
+
+        const sample = resample(rendered, ink, width, height);
+        let difference = 0;
+        let total = 0;
+        for (let i = 0; i < sample.length; i++) {
+          difference += Math.abs(sample[i] - target[i]);
+          total += sample[i] + target[i];
+        }
+
+        const renderedAspect = (ink.x1 - ink.x0) / (ink.y1 - ink.y0);
+        const shape = total > 0 ? difference / total : 1;
+        const score = shape + ASPECT_WEIGHT * Math.abs(Math.log(renderedAspect / aspect));
+        matches.push({
+          ...candidate,
+          fontSize: Math.round((RENDER_SIZE * inkHeight) / (ink.y1 - ink.y0)),
+          similarity: Math.max(0, 1 - score)
+        });
+      });
+    });
+  });
+
+  return matches.sort((a, b) => b.similarity - a.similarity);
+}
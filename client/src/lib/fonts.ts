@@ -0,0 +1,62 @@
+import type { LibraryFont } from "@shared/fonts";
+
+export type { FontLibraryResponse, LibraryFont } from "@shared/fonts";
+
+// Registration of the shared font library with the browser. Canvas text only uses
+// fonts that are loaded, so each face is loaded up front rather than on first use.
+
+const registered = new Map<string, Promise<FontFace | null>>();
+
+function registerFont(font: LibraryFont): Promise<FontFace | null> {
+  let loading = registered.get(font.id);
+  if (!loading) {
+    const face = new FontFace(font.family, `url(/fonts/files/${font.fileName}) format("${font.format}")`, {
+      weight: String(font.weight),
+      style: font.style,
+    });
+    loading = face.load().then(
+      loaded => {
+        document.fonts.add(loaded);
+        return loaded;
+      },
+      error => {
+        console.warn(`Font ${font.originalName} failed to load:`, error);
+        registered.delete(font.id);
+        return null;
+      }
+    );
+    registered.set(font.id, loading);
+  }
+  return loading;
+}
+
+// Register the library and drop faces removed from it. Resolves with the families
+// that can be drawn with.
+export async function syncLibraryFonts(fonts: LibraryFont[]): Promise<string[]> {
+  const ids = new Set(fonts.map(font => font.id));
+  for (const [id, loading] of Array.from(registered)) {
+    if (ids.has(id)) continue;
+    registered.delete(id);
+    const face = await loading;
+    if (face) document.fonts.delete(face);
+  }
+
+  const faces = await Promise.all(fonts.map(registerFont));
+  const families = fonts.filter((_, i) => faces[i] !== null).map(font => font.family);
+  return Array.from(new Set(families)).sort((a, b) => a.localeCompare(b));
+}
+
+// Add a font file to the shared library
+export async function uploadFont(file: File): Promise<LibraryFont> {
+  const res = await fetch(`/api/fonts?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+    credentials: 'include',
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.message || res.statusText);
+  }
+  return res.json();
+}
@@ -0,0 +1,128 @@
+// Glyph masks: which pixels of a text box belong to the text itself. The background
+// color is read just outside the box and the text color is the dominant color that
+// differs from it; a pixel is a glyph pixel when it lies on the blend between the two
+// (anti-aliased edges included). Underlines, icons and borders in other colors are left
+// out of the mask, so erasing only the masked pixels keeps them.
+
+import type { PixelRect } from "./background";
+
+export interface GlyphMask {
+  x: number; // Position of the box in the buffer the mask was built from
+  y: number;
+  width: number;
+  height: number;
+  values: Uint8Array; // 1 where the text is, row by row
+}
+
+// Width of the ring outside the box the background color is read from
+const RING_WIDTH = 2;
+// Text this close to its background can't be told apart reliably; the whole box is erased
+const MIN_CONTRAST = 40;
+// How far along the background → text blend a pixel must be to count as text
+const MIN_BLEND = 0.2;
+// How far off that blend a pixel may be, absolute and relative to the contrast
+const BLEND_TOLERANCE = 24;
+const RELATIVE_TOLERANCE = 0.35;
+
+type Color = [number, number, number];
+
+const colorDistance = (a: Color, b: Color) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Square dilation by `radius` pixels, done as a horizontal then a vertical pass
+function dilate(values: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  if (radius <= 0) return values;
+  const rows = new Uint8Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!values[y * width + x]) continue;
+      for (let xx = Math.max(0, x - radius); xx <= Math.min(width - 1, x + radius); xx++) rows[y * width + xx] = 1;
+    }
+  }
+  const out = new Uint8Array(values.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!rows[y * width + x]) continue;
+      for (let yy = Math.max(0, y - radius); yy <= Math.min(height - 1, y + radius); yy++) out[yy * width + x] = 1;
+    }
+  }
+  return out;
+}
+
+// Mask of the text pixels inside a box of the buffer, grown by `dilation` pixels to take
+// in the faint halo around the glyphs. Null when text and background can't be separated.
+export function buildGlyphMask(image: ImageData, box: PixelRect, dilation: number): GlyphMask | null {
+  const { data } = image;
+  const x = box.x0;
+  const y = box.y0;
+  const width = box.x1 - box.x0;
+  const height = box.y1 - box.y0;
+  if (width <= 0 || height <= 0) return null;
+
+  const pixel = (px: number, py: number): Color => {
+    const i = (py * image.width + px) * 4;
+    return [data[i], data[i + 1], data[i + 2]];
+  };
+  const isOpaque = (px: number, py: number) => data[(py * image.width + px) * 4 + 3] > 0;
+
+  // Background: median of the ring, or of the box edge where the box touches the canvas edge
+  const ring: Color[] = [];
+  for (let py = Math.max(0, y - RING_WIDTH); py < Math.min(image.height, y + height + RING_WIDTH); py++) {
+    for (let px = Math.max(0, x - RING_WIDTH); px < Math.min(image.width, x + width + RING_WIDTH); px++) {
+      const inside = px >= x && px < x + width && py >= y && py < y + height;
+      if (!inside && isOpaque(px, py)) ring.push(pixel(px, py));
+    }
+  }
+  if (ring.length === 0) {
+    for (let px = x; px < x + width; px++) ring.push(pixel(px, y), pixel(px, y + height - 1));
+  }
+  const background: Color = [0, 1, 2].map(c => median(ring.map(color => color[c]))) as Color;
+
+  const inside: Color[] = [];
+  for (let py = y; py < y + height; py++) {
+    for (let px = x; px < x + width; px++) inside.push(pixel(px, py));
+  }
+
+  // Text color: start from the pixels most unlike the background, then settle on the
+  // mean of everything closer to the text color than to the background
+  const farthest = inside.reduce((max, color) => Math.max(max, colorDistance(color, background)), 0);
+  let text: Color = background;
+  let members = inside.filter(color => colorDistance(color, background) >= farthest / 2);
+  for (let iteration = 0; iteration < 4 && members.length > 0; iteration++) {
+    text = [0, 1, 2].map(c => members.reduce((sum, color) => sum + color[c], 0) / members.length) as Color;
+    const current = text;
+    members = inside.filter(color => colorDistance(color, current) < colorDistance(color, background));
+  }
+
+  const contrast = colorDistance(text, background);
+  if (contrast < MIN_CONTRAST) return null;
+
+  // Project each pixel onto the background → text blend
+  const direction: Color = [text[0] - background[0], text[1] - background[1], text[2] - background[2]];
+  const tolerance = Math.max(BLEND_TOLERANCE, contrast * RELATIVE_TOLERANCE);
+  const values = new Uint8Array(width * height);
+  inside.forEach((color, i) => {
+    const offset: Color = [color[0] - background[0], color[1] - background[1], color[2] - background[2]];
+    const t = (offset[0] * direction[0] + offset[1] * direction[1] + offset[2] * direction[2]) / (contrast * contrast);
+    if (t < MIN_BLEND) return;
+    const off = colorDistance(offset, [direction[0] * t, direction[1] * t, direction[2] * t]);
+    if (off <= tolerance) values[i] = 1;
+  });
+
+  return { x, y, width, height, values: dilate(values, width, height, Math.round(dilation)) };
+}
+
+// Put back the pixels of the box the mask doesn't cover, from a copy taken before erasing
+export function restoreUnmasked(image: ImageData, original: Uint8ClampedArray, mask: GlyphMask) {
+  for (let y = 0; y < mask.height; y++) {
+    for (let x = 0; x < mask.width; x++) {
+      if (mask.values[y * mask.width + x]) continue;
+      const i = ((mask.y + y) * image.width + mask.x + x) * 4;
+      image.data.set(original.subarray(i, i + 4), i);
+    }
+  }
+}
@@ -0,0 +1,197 @@
+import type { OCRData, OCRWord } from "./ocr";
+import type { TextureFill } from "./inpaint";
+import type { FontFit, FontStyle, TextAlign } from "./typography";
+
+// Undo/redo for the editor. The canvas is always redrawn from the original image plus
+// ocrData and the style settings, so a history entry is simply a snapshot of those;
+// undoing restores the snapshot and lets redrawCanvas do the rest.
+
+export interface EditorStyle {
+  selectedFont: string;
+  fontWeight: number;
+  fontStyle: FontStyle;
+  fontFit: FontFit;
+  fontSizeOverride: number | null;
+  letterSpacing: number;
+  textAlign: TextAlign;
+  selectedColor: string;
+  fontSizeMultiplier: number;
+  useSmartErase: boolean;
+  usePerfectMatcher: boolean;
+  textureFill: TextureFill;
+  useGlyphMask: boolean;
+  glyphMaskDilation: number;
+  useBackgroundBox: boolean;
+  backgroundBoxPaddingTop: number;
+  backgroundBoxPaddingBottom: number;
+  backgroundBoxPaddingLeft: number;
+  backgroundBoxPaddingRight: number;
+  backgroundBoxColor: string;
+}
+
+export interface EditorSnapshot {
+  ocrData: OCRData;
+  style: EditorStyle;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  time: number;
+  snapshot: EditorSnapshot;
+}
+
+export interface EditHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown; later entries can be redone
+}
+
+export const emptyHistory: EditHistory = { entries: [], index: -1 };
+
+// Repeated changes of the same kind within this window (dragging a slider, typing a
+// color) become one entry
+const COALESCE_MS = 1000;
+
+let entryCounter = 0;
+
+// Selecting text only flips isSelected, which is not an edit
+function sameWord(a: OCRWord, b: OCRWord): boolean {
+  if (a === b) return true;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete('isSelected');
+  return Array.from(keys).every(key => a[key as keyof OCRWord] === b[key as keyof OCRWord]);
+}
+
+// Stacking order and visibility are the only difference
+function onlyLayerChanged(before: OCRWord | undefined, after: OCRWord): boolean {
+  if (!before) return false;
+  const strip = ({ layerOrder, layerHidden, ...word }: OCRWord) => word;
+  return sameWord(strip(before), strip(after));
+}
+
+const sameList = <T>(a: T[], b: T[], same: (x: T, y: T) => boolean = (x, y) => x === y) =>
+  a === b || (a.length === b.length && a.every((item, i) => same(item, b[i])));
+
+function sameData(a: OCRData, b: OCRData): boolean {
+  return a === b || (
+    sameList(a.words, b.words, sameWord) &&
+    sameList(a.lines, b.lines) &&
+    sameList(a.paragraphs, b.paragraphs) &&
+    sameList(a.blocks, b.blocks)
+  );
+}
+
+const sameSnapshot = (a: EditorSnapshot, b: EditorSnapshot) =>
+  sameData(a.ocrData, b.ocrData) &&
+  (Object.keys(a.style) as (keyof EditorStyle)[]).every(key => a.style[key] === b.style[key]);
+
+const styleLabels: Record<keyof EditorStyle, string> = {
+  selectedFont: 'Change font',
+  fontWeight: 'Change font weight',
+  fontStyle: 'Toggle italic',
+  fontFit: 'Change size fitting',
+  fontSizeOverride: 'Change font size',
+  letterSpacing: 'Change letter spacing',
+  textAlign: 'Change alignment',
+  selectedColor: 'Pick text color',
+  fontSizeMultiplier: 'Change font size',
+  useSmartErase: 'Change erase mode',
+  usePerfectMatcher: 'Change erase mode',
+  textureFill: 'Change texture fill',
+  useGlyphMask: 'Toggle glyph mask',
+  glyphMaskDilation: 'Change mask growth',
+  useBackgroundBox: 'Toggle background box',
+  backgroundBoxPaddingTop: 'Change background box padding',
+  backgroundBoxPaddingBottom: 'Change background box padding',
+  backgroundBoxPaddingLeft: 'Change background box padding',
+  backgroundBoxPaddingRight: 'Change background box padding',
+  backgroundBoxColor: 'Change background box color',
+};
+
+const quote = (text: string) => `"${text.length > 24 ? `${text.slice(0, 23)}…` : text}"`;
+
+// Short description of what changed between two snapshots, shown in the history panel
+export function describeChange(prev: EditorSnapshot, next: EditorSnapshot): string {
+  const styleKey = (Object.keys(styleLabels) as (keyof EditorStyle)[]).find(key => prev.style[key] !== next.style[key]);
+  if (sameData(prev.ocrData, next.ocrData)) return styleKey ? styleLabels[styleKey] : 'Edit';
+
+  const prevWords = new Map(prev.ocrData.words.map(word => [word.id, word]));
+  const nextIds = new Set(next.ocrData.words.map(word => word.id));
+  const added = next.ocrData.words.filter(word => !prevWords.has(word.id));
+  const removed = prev.ocrData.words.filter(word => !nextIds.has(word.id));
+  const changed = next.ocrData.words.filter(word => {
+    const before = prevWords.get(word.id);
+    return before && !sameWord(before, word);
+  });
+
+  const replaced = [...added, ...changed].filter(word => word.isEdited && word.text !== prevWords.get(word.id)?.text);
+  const editedBefore = prev.ocrData.words.filter(word => word.isEdited).length;
+  const editedAfter = next.ocrData.words.filter(word => word.isEdited).length;
+
+  if (editedBefore > 1 && editedAfter === 0) return 'Reset to original';
+  if (replaced.length === 0 && editedAfter < editedBefore) return 'Revert edit';
+  if (replaced.length === 1) {
+    const word = replaced[0];
+    return `Replace ${quote(word.originalText ?? '')} → ${quote(word.text)}`;
+  }
+  if (replaced.length > 1) return `Replace ${replaced.length} texts`;
+  if (removed.length === 0 && added.length === 1) return 'Add text box';
+  if (removed.length === 1 && added.length === 0) return 'Delete box';
+  if (removed.length === 1 && added.length === 2) return 'Split box';
+  if (removed.length === 2 && added.length === 1) return 'Merge boxes';
+  if (removed.length === 0 && added.length === 0 && changed.length > 0 && changed.every(word => onlyLayerChanged(prevWords.get(word.id), word))) {
+    const toggled = changed.find(word => !!word.layerHidden !== !!prevWords.get(word.id)?.layerHidden);
+    if (toggled) return toggled.layerHidden ? 'Hide edit' : 'Show edit';
+    return 'Reorder edits';
+  }
+  if (removed.length === 0 && added.length === 0 && changed.length > 0 && changed.every(word => word.bbox !== prevWords.get(word.id)?.bbox)) {
+    return 'Resize box';
+  }
+  if (added.length > 0 && removed.length === prev.ocrData.words.length) return 'Recognize text';
+  if (added.length > 0 || removed.length > 0) return 'Update recognized text';
+  return 'Edit text';
+}
+
+// Record the editor state after a change. Returns the same history object when nothing
+// relevant changed, so calling it from an effect never loops.
+export function recordSnapshot(history: EditHistory, snapshot: EditorSnapshot, time = Date.now()): EditHistory {
+  const current = history.entries[history.index];
+  if (!current) {
+    return { entries: [{ id: ++entryCounter, label: 'Recognize text', time, snapshot }], index: 0 };
+  }
+  if (sameSnapshot(current.snapshot, snapshot)) return history;
+
+  const label = describeChange(current.snapshot, snapshot);
+  const kept = history.entries.slice(0, history.index + 1);
+  const previous = kept[kept.length - 2];
+
+  // Coalesce with the newest entry, still diffing against the state before it
+  if (history.index === history.entries.length - 1 && history.index > 0 && previous &&
+      current.label === label && time - current.time < COALESCE_MS) {
+    if (sameSnapshot(previous.snapshot, snapshot)) {
+      return { entries: kept.slice(0, -1), index: history.index - 1 };
+    }
+    const merged = { ...current, time, snapshot, label: describeChange(previous.snapshot, snapshot) };
+    return { entries: [...kept.slice(0, -1), merged], index: history.index };
+  }
+
+  return { entries: [...kept, { id: ++entryCounter, label, time, snapshot }], index: kept.length };
+}
+
+// Take over state that follows from selecting something rather than editing it (the
+// style loaded from an edited word) into the current entry, without adding a step or
+// dropping the redo entries
+export function adoptSnapshot(history: EditHistory, snapshot: EditorSnapshot): EditHistory {
+  const current = history.entries[history.index];
+  if (!current || sameSnapshot(current.snapshot, snapshot)) return history;
+
+  const entries = history.entries.map((entry, i) => (i === history.index ? { ...entry, snapshot } : entry));
+  return { ...history, entries };
+}
+
+export const canUndo = (history: EditHistory) => history.index > 0;
+export const canRedo = (history: EditHistory) => history.index < history.entries.length - 1;
+
+export function jumpTo(history: EditHistory, index: number): EditHistory {
+  return { ...history, index: Math.max(0, Math.min(history.entries.length - 1, index)) };
+}
@@ -0,0 +1,310 @@
+// Exemplar-based inpainting (Criminisi, Pérez & Toyama 2004). The hole is filled from
+// its edge inwards, one patch at a time: the fill-front pixel whose patch is both well
+// known (confidence) and crossed by a strong structure (data term) goes first, and its
+// missing pixels are copied from the most similar fully known patch nearby. Edges and
+// texture running into the hole are continued through it instead of being blurred.
+
+// How the background matcher rebuilds textured backgrounds: exemplar inpainting, or the
+// older, faster fill that tiles whole blocks from around the box
+export type TextureFill = 'inpaint' | 'patches';
+
+export const textureFills: { value: TextureFill; label: string }[] = [
+  { value: 'inpaint', label: 'Exemplar inpainting' },
+  { value: 'patches', label: 'Block patches (fast)' },
+];
+
+// Patches are (2r+1)² pixels
+const PATCH_RADIUS = 4;
+// Known surroundings read around the hole, in patches, and the cap in pixels
+const MIN_SEARCH_PATCHES = 3;
+const MAX_SEARCH_MARGIN = 64;
+// Exemplars are searched this far from the target first, farther only when none lie that close
+const SEARCH_RADIUS = 48;
+// Keeps flat regions (no structure, data term 0) ordered by confidence alone
+const DATA_EPSILON = 0.001;
+// Among near-identical patches, prefer the closer one (SSD units per pixel of distance)
+const DISTANCE_WEIGHT = 0.5;
+
+// Per-pixel state of the working region
+const SOURCE = 0; // Original pixel, usable as an exemplar
+const HOLE = 1; // Still to be filled
+const FILLED = 2; // Filled by an earlier patch, known but not an exemplar
+const UNUSABLE = 3; // Transparent (outside a rotated scratch canvas), ignored entirely
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+
+// Max-heap of fill-front pixels by priority. A pixel is pushed again whenever its
+// priority is recomputed; the older entries are told apart by their stamp and skipped.
+class FrontQueue {
+  private priorities: number[] = [];
+  private pixels: number[] = [];
+  private stamps: number[] = [];
+
+  push(priority: number, pixel: number, stamp: number) {
+    let i = this.priorities.length;
+    this.priorities.push(priority);
+    this.pixels.push(pixel);
+    this.stamps.push(stamp);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] >= this.priorities[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): { pixel: number; stamp: number } | null {
+    const count = this.priorities.length;
+    if (count === 0) return null;
+    const top = { pixel: this.pixels[0], stamp: this.stamps[0] };
+    this.swap(0, count - 1);
+    this.priorities.pop();
+    this.pixels.pop();
+    this.stamps.pop();
+
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let largest = i;
+      if (left < count - 1 && this.priorities[left] > this.priorities[largest]) largest = left;
+      if (right < count - 1 && this.priorities[right] > this.priorities[largest]) largest = right;
+      if (largest === i) return top;
+      this.swap(i, largest);
+      i = largest;
+    }
+  }
+
+  private swap(a: number, b: number) {
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+    [this.pixels[a], this.pixels[b]] = [this.pixels[b], this.pixels[a]];
+    [this.stamps[a], this.stamps[b]] = [this.stamps[b], this.stamps[a]];
+  }
+}
+
+// Fill the pixels of `image` where `mask` is non-zero, in place. Returns false when the
+// hole has no known surroundings to grow from.
+export function inpaint(image: ImageData, mask: Uint8Array, patchRadius = PATCH_RADIUS): boolean {
+  const { width, height, data } = image;
+  const r = patchRadius;
+  const size = width * height;
+  const state = new Uint8Array(size);
+  const confidence = new Float32Array(size);
+
+  let remaining = 0;
+  for (let i = 0; i < size; i++) {
+    if (mask[i]) {
+      state[i] = HOLE;
+      remaining++;
+    } else if (data[i * 4 + 3] === 0) {
+      state[i] = UNUSABLE;
+    } else {
+      confidence[i] = 1;
+    }
+  }
+  if (remaining === 0) return true;
+
+  const isKnown = (i: number) => state[i] === SOURCE || state[i] === FILLED;
+
+  // Exemplar centers: patches lying inside the region made only of original pixels.
+  // A summed-area table of non-source pixels tells that in constant time per center.
+  const blocked = new Int32Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += state[y * width + x] === SOURCE ? 0 : 1;
+      blocked[(y + 1) * (width + 1) + x + 1] = blocked[y * (width + 1) + x + 1] + row;
+    }
+  }
+  const isExemplar = new Uint8Array(size);
+  let exemplars = 0;
+  for (let y = r; y < height - r; y++) {
+    for (let x = r; x < width - r; x++) {
+      const top = (y - r) * (width + 1);
+      const bottom = (y + r + 1) * (width + 1);
+      const count = blocked[bottom + x + r + 1] - blocked[bottom + x - r] - blocked[top + x + r + 1] + blocked[top + x - r];
+      if (count > 0) continue;
+      isExemplar[y * width + x] = 1;
+      exemplars++;
+    }
+  }
+  if (exemplars === 0) return false;
+
+  // Isophote (the direction of least change, i.e. along edges) strength across the
+  // fill front normal. High where a structure meets the hole.
+  const dataTerm = (x: number, y: number) => {
+    const m = (xx: number, yy: number) => (xx < 0 || yy < 0 || xx >= width || yy >= height || state[yy * width + xx] !== HOLE ? 0 : 1);
+    let nx = m(x + 1, y) - m(x - 1, y);
+    let ny = m(x, y + 1) - m(x, y - 1);
+    const length = Math.hypot(nx, ny);
+    if (length === 0) return DATA_EPSILON;
+    nx /= length;
+    ny /= length;
+
+    // Strongest luminance gradient among the known pixels of the patch
+    let gx = 0;
+    let gy = 0;
+    let strongest = 0;
+    for (let yy = Math.max(1, y - r); yy <= Math.min(height - 2, y + r); yy++) {
+      for (let xx = Math.max(1, x - r); xx <= Math.min(width - 2, x + r); xx++) {
+        const i = yy * width + xx;
+        if (!isKnown(i - 1) || !isKnown(i + 1) || !isKnown(i - width) || !isKnown(i + width)) continue;
+        const dx = (luminance(data, i + 1) - luminance(data, i - 1)) / 2;
+        const dy = (luminance(data, i + width) - luminance(data, i - width)) / 2;
+        const magnitude = dx * dx + dy * dy;
+        if (magnitude > strongest) {
+          strongest = magnitude;
+          gx = dx;
+          gy = dy;
+        }
+      }
+    }
+    // Isophote is the gradient turned 90°
+    return Math.abs(-gy * nx + gx * ny) / 255 + DATA_EPSILON;
+  };
+
+  const patchConfidence = (x: number, y: number) => {
+    let sum = 0;
+    for (let yy = Math.max(0, y - r); yy <= Math.min(height - 1, y + r); yy++) {
+      for (let xx = Math.max(0, x - r); xx <= Math.min(width - 1, x + r); xx++) {
+        sum += confidence[yy * width + xx];
+      }
+    }
+    return sum / ((2 * r + 1) * (2 * r + 1));
+  };
+
+  const isFront = (i: number) => {
+    const x = i % width;
+    return (
+      (x > 0 && isKnown(i - 1)) ||
+      (x < width - 1 && isKnown(i + 1)) ||
+      (i >= width && isKnown(i - width)) ||
+      (i < size - width && isKnown(i + width))
+    );
+  };
+
+  // Sum of squared differences over the target's known pixels, abandoned once it
+  // exceeds `limit`
+  const distance = (target: number, source: number, limit: number) => {
+    const tx = target % width;
+    const ty = (target - tx) / width;
+    const sx = source % width;
+    const sy = (source - sx) / width;
+    let sum = DISTANCE_WEIGHT * Math.hypot(tx - sx, ty - sy);
+    for (let dy = -r; dy <= r; dy++) {
+      const y = ty + dy;
+      if (y < 0 || y >= height) continue;
+      for (let dx = -r; dx <= r; dx++) {
+        const x = tx + dx;
+        if (x < 0 || x >= width) continue;
+        const t = y * width + x;
+        if (!isKnown(t)) continue;
+        const s = ((sy + dy) * width + sx + dx) * 4;
+        const dr = data[t * 4] - data[s];
+        const dg = data[t * 4 + 1] - data[s + 1];
+        const db = data[t * 4 + 2] - data[s + 2];
+        sum += dr * dr + dg * dg + db * db;
+        if (sum >= limit) return sum;
+      }
+    }
+    return sum;
+  };
+
+  // Most similar exemplar near the target. The first pass only visits every other center
+  // within SEARCH_RADIUS, widening the window until it holds one; the winner is refined
+  // at full resolution.
+  const bestExemplar = (target: number) => {
+    const tx = target % width;
+    const ty = (target - tx) / width;
+    let best = -1;
+    let bestDistance = Infinity;
+    for (let radius = SEARCH_RADIUS; best < 0; radius *= 2) {
+      for (let y = Math.max(r, ty - radius) & ~1; y <= Math.min(height - r - 1, ty + radius); y += 2) {
+        for (let x = Math.max(r, tx - radius) & ~1; x <= Math.min(width - r - 1, tx + radius); x += 2) {
+          const source = y * width + x;
+          if (!isExemplar[source]) continue;
+          const d = distance(target, source, bestDistance);
+          if (d < bestDistance) {
+            bestDistance = d;
+            best = source;
+          }
+        }
+      }
+      // Odd-sized regions can hold exemplars only at odd centers
+      if (best < 0 && radius >= width + height) {
+        for (let source = 0; source < size && best < 0; source++) if (isExemplar[source]) best = source;
+      }
+    }
+
+    const center = best;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const source = center + dy * width + dx;
+        if ((dx === 0 && dy === 0) || source < 0 || source >= size || !isExemplar[source]) continue;
+        const d = distance(target, source, bestDistance);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = source;
+        }
+      }
+    }
+    return best;
+  };
+
+  // Priorities are kept for the fill front and only recomputed around each filled patch:
+  // a pixel's confidence and data term only read pixels within r + 1 of it
+  const queue = new FrontQueue();
+  const stamps = new Uint32Array(size);
+  const frontConfidence = new Float32Array(size);
+  const updateFront = (x0: number, y0: number, x1: number, y1: number) => {
+    for (let y = Math.max(0, y0); y <= Math.min(height - 1, y1); y++) {
+      for (let x = Math.max(0, x0); x <= Math.min(width - 1, x1); x++) {
+        const i = y * width + x;
+        if (state[i] !== HOLE || !isFront(i)) continue;
+        const c = patchConfidence(x, y);
+        frontConfidence[i] = c;
+        queue.push(c * dataTerm(x, y), i, ++stamps[i]);
+      }
+    }
+  };
+  updateFront(0, 0, width - 1, height - 1);
+
+  while (remaining > 0) {
+    let target = -1;
+    for (let entry = queue.pop(); entry; entry = target < 0 ? queue.pop() : null) {
+      if (state[entry.pixel] === HOLE && stamps[entry.pixel] === entry.stamp) target = entry.pixel;
+    }
+    // Whatever is left is walled off by transparent pixels
+    if (target < 0) return false;
+
+    const source = bestExemplar(target);
+    const targetConfidence = frontConfidence[target];
+    const tx = target % width;
+    const ty = (target - tx) / width;
+    const offset = source - target;
+    for (let y = Math.max(0, ty - r); y <= Math.min(height - 1, ty + r); y++) {
+      for (let x = Math.max(0, tx - r); x <= Math.min(width - 1, tx + r); x++) {
+        const t = y * width + x;
+        if (state[t] !== HOLE) continue;
+        const s = t + offset;
+        data[t * 4] = data[s * 4];
+        data[t * 4 + 1] = data[s * 4 + 1];
+        data[t * 4 + 2] = data[s * 4 + 2];
+        data[t * 4 + 3] = data[s * 4 + 3];
+        state[t] = FILLED;
+        confidence[t] = targetConfidence;
+        remaining--;
+      }
+    }
+    const reach = 2 * r + 1;
+    updateFront(tx - reach, ty - reach, tx + reach, ty + reach);
+  }
+  return true;
+}
+
+// Known surroundings the search needs around a hole of the given size
+export function inpaintMargin(width: number, height: number): number {
+  const patchSize = PATCH_RADIUS * 2 + 1;
+  return Math.min(MAX_SEARCH_MARGIN, Math.max(patchSize * MIN_SEARCH_PATCHES, Math.min(width, height) * 1.5));
+}
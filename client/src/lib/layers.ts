@@ -0,0 +1,172 @@
+import { revertWord, type OCRData, type OCRWord } from "./ocr";
+
+// The edited image as a stack of layers: the original image at the bottom, then for each
+// edit a patch layer (the rebuilt background behind its text) and a text layer (the
+// replacement). Patches are computed from the original image alone, never from other
+// edits, so each layer can be cached once and edits can be reordered, hidden or deleted
+// without touching the others. Redrawing only composites the cached layers.
+//
+// Stacking order and visibility are stored on the edited words (layerOrder, layerHidden),
+// so they are part of the edit history like every other change.
+
+// A rendered layer, placed at (x, y) on the image. Pixels outside what the layer
+// changes are transparent.
+export interface RasterLayer {
+  x: number;
+  y: number;
+  bitmap: ImageBitmap | HTMLCanvasElement;
+}
+
+// Patch pixels a cache keeps before dropping the least recently used patches (~64 MB)
+const MAX_PATCH_PIXELS = 16_000_000;
+
+export const isVisibleEdit = (word: OCRWord) => !!word.isEdited && word.text !== word.originalText;
+
+// Edited words, bottom layer first. Edits without a stored order go on top, in
+// reading order.
+export function getEditLayers(data: OCRData | null): OCRWord[] {
+  if (!data) return [];
+  return data.words
+    .map((word, index) => ({ word, index }))
+    .filter(({ word }) => isVisibleEdit(word))
+    .sort((a, b) => (a.word.layerOrder ?? Infinity) - (b.word.layerOrder ?? Infinity) || a.index - b.index)
+    .map(({ word }) => word);
+}
+
+// Give every edit an explicit place in the stack, keeping the current order
+function withLayerOrder(data: OCRData): OCRData {
+  const order = new Map(getEditLayers(data).map((word, i) => [word.id, i]));
+  return {
+    ...data,
+    words: data.words.map(word => (order.has(word.id) ? { ...word, layerOrder: order.get(word.id) } : word))
+  };
+}
+
+// Move an edit one place up (towards the top of the stack) or down
+export function moveLayer(data: OCRData, id: string, direction: 1 | -1): OCRData {
+  const ordered = withLayerOrder(data);
+  const layers = getEditLayers(ordered);
+  const index = layers.findIndex(word => word.id === id);
+  const other = layers[index + direction];
+  if (index === -1 || !other) return data;
+
+  const swap = new Map([[id, index + direction], [other.id, index]]);
+  return {
+    ...ordered,
+    words: ordered.words.map(word => (swap.has(word.id) ? { ...word, layerOrder: swap.get(word.id) } : word))
+  };
+}
+
+export function setLayerHidden(data: OCRData, id: string, hidden: boolean): OCRData {
+  return {
+    ...data,
+    words: data.words.map(word => (word.id === id ? { ...word, layerHidden: hidden || undefined } : word))
+  };
+}
+
+const isHiddenEdit = (word: OCRWord) => isVisibleEdit(word) && !!word.layerHidden;
+
+// The text as the image shows it. A hidden edit shows the original pixels, so exports,
+// the searchable PDF and find see the words it replaced instead of its replacement.
+export function getVisibleOCRData(data: OCRData): OCRData {
+  return data.words.filter(isHiddenEdit).reduce((visible, word) => revertWord(visible, word.id), data);
+}
+
+// Drop the hidden edits covering any of the given (visible) words, so they can be edited
+// again as what they show
+export function revealHiddenEdits(data: OCRData, wordIds: string[]): OCRData {
+  const ids = new Set(wordIds);
+  const covers = (word: OCRWord): boolean => ids.has(word.id) || !!word.mergedWords?.some(covers);
+  return data.words
+    .filter(word => isHiddenEdit(word) && covers(word))
+    .reduce((revealed, word) => revertWord(revealed, word.id), data);
+}
+
+// Cache keys: everything a layer's pixels depend on. The patch only depends on where the
+// box is and how it is erased; the text layer on the word's text and style.
+export const patchLayerKey = (word: OCRWord, eraseOptions: unknown) =>
+  JSON.stringify([word.bbox, word.angle ?? 0, eraseOptions]);
+
+export const textLayerKey = (word: OCRWord, fontFamilies: string[]) => {
+  const { isSelected, mergedWords, layerOrder, layerHidden, ...drawn } = word;
+  return JSON.stringify([drawn, fontFamilies]);
+};
+
+// Rendered layers of one image. Patches are kept while they fit MAX_PATCH_PIXELS, so
+// undoing, showing an edit again or going back to earlier erase settings is instant;
+// text layers are cheap and only kept while used. A null patch is a box with nothing
+// to rebuild (it lies outside the image).
+export class LayerCache {
+  // In order of use, least recent first
+  private readonly patches = new Map<string, RasterLayer | null>();
+  private patchPixels = 0;
+  private disposed = false;
+  readonly texts = new Map<string, RasterLayer>();
+  readonly pendingPatches = new Set<string>();
+  private base: CanvasRenderingContext2D | null = null;
+
+  constructor(readonly image: HTMLImageElement | null) {}
+
+  hasPatch(key: string) {
+    return this.patches.has(key);
+  }
+
+  // Undefined while the patch isn't rendered
+  getPatch(key: string): RasterLayer | null | undefined {
+    const patch = this.patches.get(key);
+    if (patch !== undefined) {
+      this.patches.delete(key);
+      this.patches.set(key, patch);
+    }
+    return patch;
+  }
+
+  // Store a patch, dropping the least recently used ones beyond the budget. Patches in
+  // `inUse` are never dropped, however large they are together.
+  setPatch(key: string, patch: RasterLayer | null, inUse: Set<string>) {
+    if (this.disposed) {
+      if (patch?.bitmap instanceof ImageBitmap) patch.bitmap.close();
+      return;
+    }
+    this.deletePatch(key);
+    this.patches.set(key, patch);
+    this.patchPixels += patch ? patch.bitmap.width * patch.bitmap.height : 0;
+
+    const keys = Array.from(this.patches.keys());
+    for (let i = 0; i < keys.length && this.patchPixels > MAX_PATCH_PIXELS; i++) {
+      if (keys[i] !== key && !inUse.has(keys[i])) this.deletePatch(keys[i]);
+    }
+  }
+
+  // Release the patches once the image is replaced; patches still arriving are dropped
+  dispose() {
+    this.disposed = true;
+    Array.from(this.patches.keys()).forEach(key => this.deletePatch(key));
+    this.texts.clear();
+  }
+
+  private deletePatch(key: string) {
+    const patch = this.patches.get(key);
+    if (!this.patches.delete(key) || !patch) return;
+    this.patchPixels -= patch.bitmap.width * patch.bitmap.height;
+    if (patch.bitmap instanceof ImageBitmap) patch.bitmap.close();
+  }
+
+  // The original image on a canvas of its own: what every patch is rebuilt from
+  getBase(): CanvasRenderingContext2D | null {
+    if (!this.base && this.image) {
+      const canvas = document.createElement('canvas');
+      canvas.width = this.image.naturalWidth;
+      canvas.height = this.image.naturalHeight;
+      this.base = canvas.getContext('2d', { willReadFrequently: true });
+      this.base?.drawImage(this.image, 0, 0);
+    }
+    return this.base;
+  }
+
+  pruneTexts(keys: Set<string>) {
+    Array.from(this.texts.keys()).forEach(key => {
+      if (!keys.has(key)) this.texts.delete(key);
+    });
+  }
+}
@@ -0,0 +1,212 @@
+import { createWorker, OEM, type DetectData, type Page, type Worker } from "tesseract.js";
+import { tesseractOptions, type RecognizeProgress } from "./ocr";
+
+export type OCRJobStatus = 'queued' | 'running';
+
+// Snapshot of a job for display in the UI
+export interface OCRJob {
+  id: string;
+  label: string;
+  status: OCRJobStatus;
+  progress: number;
+}
+
+export interface OCRJobHandle {
+  id: string;
+  promise: Promise<Page>;
+}
+
+export interface OCRJobOptions {
+  label: string;
+  onProgress?: (progress: RecognizeProgress) => void;
+}
+
+export class OCRCancelledError extends Error {
+  constructor() {
+    super("OCR job was cancelled");
+    this.name = "OCRCancelledError";
+  }
+}
+
+interface QueuedJob extends OCRJob {
+  image: HTMLImageElement | HTMLCanvasElement;
+  lang: string;
+  onProgress?: (progress: RecognizeProgress) => void;
+  resolve: (page: Page) => void;
+  reject: (error: unknown) => void;
+}
+
+interface WorkerSlot {
+  worker: Promise<Worker> | null;
+  lang: string | null;
+  job: QueuedJob | null;
+}
+
+// Long-lived tesseract.js workers shared by full-image and region recognition.
+// Workers keep their language data loaded between jobs; a running job is
+// cancelled by terminating its worker, which is replaced on the next job.
+export class OCRWorkerPool {
+  private slots: WorkerSlot[] = [];
+  private queue: QueuedJob[] = [];
+  private listeners = new Set<(jobs: OCRJob[]) => void>();
+  private jobCounter = 0;
+  private osdWorker: Promise<Worker> | null = null;
+
+  constructor(private size: number) {}
+
+  recognize(image: HTMLImageElement | HTMLCanvasElement, lang: string, options: OCRJobOptions): OCRJobHandle {
+    const id = `ocr_job_${++this.jobCounter}`;
+    const promise = new Promise<Page>((resolve, reject) => {
+      this.queue.push({
+        id,
+        label: options.label,
+        status: 'queued',
+        progress: 0,
+        image,
+        lang,
+        onProgress: options.onProgress,
+        resolve,
+        reject
+      });
+    });
+
+    this.emit();
+    this.pump();
+    return { id, promise };
+  }
+
+  // Orientation and script detection. It only runs on the legacy engine with osd.traineddata
+  // installed, so it has a dedicated worker outside the queue; detection takes a fraction
+  // of the time recognition does.
+  async detectOrientation(image: HTMLImageElement | HTMLCanvasElement): Promise<DetectData> {
+    if (!this.osdWorker) {
+      this.osdWorker = createWorker('osd', OEM.TESSERACT_ONLY, {
+        ...tesseractOptions,
+        legacyCore: true,
+        legacyLang: true,
+        errorHandler: (error) => console.warn('OSD worker error:', error),
+      });
+      this.osdWorker.catch(() => {
+        this.osdWorker = null;
+      });
+    }
+
+    const worker = await this.osdWorker;
+    const { data } = await worker.detect(image);
+    return data;
+  }
+
+  cancel(id: string) {
+    const queued = this.queue.find(job => job.id === id);
+    if (queued) {
+      this.queue = this.queue.filter(job => job !== queued);
+      queued.reject(new OCRCancelledError());
+      this.emit();
+      return;
+    }
+
+    const slot = this.slots.find(s => s.job?.id === id);
+    if (slot && slot.job) {
+      const job = slot.job;
+      slot.job = null;
+      this.discardSlot(slot);
+      job.reject(new OCRCancelledError());
+      this.emit();
+      this.pump();
+    }
+  }
+
+  cancelAll() {
+    this.getJobs().forEach(job => this.cancel(job.id));
+  }
+
+  getJobs(): OCRJob[] {
+    const running = this.slots.flatMap(slot => (slot.job ? [slot.job] : []));
+    return [...running, ...this.queue].map(({ id, label, status, progress }) => ({ id, label, status, progress }));
+  }
+
+  subscribe(listener: (jobs: OCRJob[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    const jobs = this.getJobs();
+    this.listeners.forEach(listener => listener(jobs));
+  }
+
+  private pump() {
+    while (this.queue.length > 0) {
+      let slot = this.slots.find(s => !s.job);
+      if (!slot) {
+        if (this.slots.length >= this.size) return;
+        slot = { worker: null, lang: null, job: null };
+        this.slots.push(slot);
+      }
+      this.run(slot, this.queue.shift()!);
+    }
+  }
+
+  private async run(slot: WorkerSlot, job: QueuedJob) {
+    slot.job = job;
+    job.status = 'running';
+    this.emit();
+
+    try {
+      if (!slot.worker) {
+        slot.lang = job.lang;
+        slot.worker = createWorker(job.lang, undefined, {
+          ...tesseractOptions,
+          logger: (m) => this.reportProgress(slot, m),
+          errorHandler: (error) => console.warn('OCR worker error:', error),
+        });
+      }
+
+      const worker = await slot.worker;
+      if (slot.lang !== job.lang) {
+        await worker.reinitialize(job.lang);
+        slot.lang = job.lang;
+      }
+      if (slot.job !== job) return;
+
+      const { data } = await worker.recognize(job.image, {}, { blocks: true });
+      if (slot.job !== job) return;
+
+      slot.job = null;
+      job.resolve(data);
+    } catch (error) {
+      if (slot.job !== job) return;
+
+      // Start from a fresh worker after a failure rather than reusing a broken one
+      slot.job = null;
+      this.discardSlot(slot);
+      job.reject(error);
+    }
+
+    this.emit();
+    this.pump();
+  }
+
+  private reportProgress(slot: WorkerSlot, m: RecognizeProgress) {
+    const job = slot.job;
+    if (!job) return;
+
+    if (m.status === 'recognizing text') {
+      job.progress = m.progress;
+      this.emit();
+    }
+    job.onProgress?.({ status: m.status, progress: m.progress });
+  }
+
+  private discardSlot(slot: WorkerSlot) {
+    this.slots = this.slots.filter(s => s !== slot);
+    slot.worker?.then(worker => worker.terminate()).catch(() => {});
+  }
+}
+
+// One worker per spare core, capped at two: recognition is memory hungry
+export const ocrWorkerPool = new OCRWorkerPool(
+  Math.max(1, Math.min(2, (navigator.hardwareConcurrency || 2) - 1))
+);
@@ -0,0 +1,431 @@
+import type { Bbox, WorkerOptions } from "tesseract.js";
+import type { OCRData, OCRTextGroup, OCRWord } from "@shared/ocr";
+import { getSpanningBox, getSubBox } from "./orientation";
+
+// The recognition result model is shared with the server's /api/ocr endpoint
+export { buildOCRData, type OCRBaseline, type OCRData, type OCRParagraphLayout, type OCRTextGroup, type OCRWord } from "@shared/ocr";
+
+export type SelectionGranularity = 'word' | 'line' | 'paragraph';
+
+// Rectangle in original image pixel coordinates
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// All engine assets are served by our own Express server (see server/tesseract.ts),
+// so recognition keeps working without access to unpkg or jsdelivr.
+export const tesseractOptions: Partial<WorkerOptions> = {
+  workerPath: "/tesseract/worker/worker.min.js",
+  corePath: "/tesseract/core",
+  langPath: "/tesseract/lang",
+  gzip: false,
+  workerBlobURL: false,
+};
+
+// Display names for the traineddata packs we commonly install; unknown codes are shown as-is
+const languageNames: Record<string, string> = {
+  ara: "Arabic",
+  chi_sim: "Chinese (Simplified)",
+  chi_tra: "Chinese (Traditional)",
+  deu: "German",
+  eng: "English",
+  fra: "French",
+  hin: "Hindi",
+  ita: "Italian",
+  jpn: "Japanese",
+  kor: "Korean",
+  nld: "Dutch",
+  pol: "Polish",
+  por: "Portuguese",
+  rus: "Russian",
+  spa: "Spanish",
+  tur: "Turkish",
+};
+
+export function getLanguageName(code: string): string {
+  return languageNames[code] || code;
+}
+
+export interface InstalledLanguagesResponse {
+  languages: string[];
+}
+
+export interface RecognizeProgress {
+  status: string;
+  progress: number;
+}
+
+export function getGroups(data: OCRData, granularity: SelectionGranularity): OCRTextGroup[] {
+  if (granularity === 'line') return data.lines;
+  if (granularity === 'paragraph') return data.paragraphs;
+  return [];
+}
+
+export function findGroup(data: OCRData, id: string): OCRTextGroup | undefined {
+  return [...data.lines, ...data.paragraphs, ...data.blocks].find(group => group.id === id);
+}
+
+export function getGroupWords(data: OCRData, group: OCRTextGroup): OCRWord[] {
+  return group.wordIds
+    .map(id => data.words.find(word => word.id === id))
+    .filter((word): word is OCRWord => word !== undefined);
+}
+
+// Current text of a group, reflecting any edits made to its words
+export function getGroupText(data: OCRData, group: OCRTextGroup): string {
+  return getGroupWords(data, group).map(word => word.text).join(' ');
+}
+
+// Build a single word covering the whole group so it can go through the word replacement flow
+export function groupToWord(data: OCRData, group: OCRTextGroup): OCRWord {
+  const words = getGroupWords(data, group);
+  return {
+    id: group.id,
+    text: getGroupText(data, group),
+    confidence: group.confidence,
+    bbox: { ...group.bbox },
+    baseline: group.baseline,
+    angle: group.angle,
+    isSelected: false,
+    isEdited: false,
+    originalText: words.map(word => word.originalText ?? word.text).join(' '),
+    mergedWords: words
+  };
+}
+
+// Swap the given words for one merged word, keeping reading order and group membership intact
+export function mergeWords(data: OCRData, wordIds: string[], merged: OCRWord): OCRData {
+  const firstIndex = data.words.findIndex(word => wordIds.includes(word.id));
+  const words = data.words.filter(word => !wordIds.includes(word.id));
+  words.splice(Math.max(0, firstIndex), 0, merged);
+
+  const remap = (group: OCRTextGroup): OCRTextGroup => {
+    if (!group.wordIds.some(id => wordIds.includes(id))) return group;
+    const ids = group.wordIds.filter(id => !wordIds.includes(id));
+    const insertAt = group.wordIds.findIndex(id => wordIds.includes(id));
+    ids.splice(insertAt, 0, merged.id);
+    return { ...group, wordIds: ids };
+  };
+
+  return {
+    words,
+    lines: data.lines.map(remap),
+    paragraphs: data.paragraphs.map(remap),
+    blocks: data.blocks.map(remap)
+  };
+}
+
+// The recognized words an edited line or paragraph replaced, through nested merges
+const expandMerged = (word: OCRWord): OCRWord[] =>
+  word.mergedWords ? word.mergedWords.flatMap(expandMerged) : [word];
+
+// Undo every merge so the data matches the original recognition result again
+export function unmergeWords(data: OCRData): OCRData {
+  const expandIds = (ids: string[]) =>
+    ids.flatMap(id => {
+      const word = data.words.find(w => w.id === id);
+      return word ? expandMerged(word).map(w => w.id) : [id];
+    });
+  const remap = (group: OCRTextGroup): OCRTextGroup => ({ ...group, wordIds: expandIds(group.wordIds) });
+
+  return {
+    words: data.words.flatMap(expandMerged),
+    lines: data.lines.map(remap),
+    paragraphs: data.paragraphs.map(remap),
+    blocks: data.blocks.map(remap)
+  };
+}
+
+// Replace one word ID with zero or more IDs in every group that references it
+function replaceWordIdInGroups(data: OCRData, id: string, replacementIds: string[]): OCRData {
+  const remap = (groups: OCRTextGroup[]) =>
+    groups
+      .map(group => ({
+        ...group,
+        wordIds: group.wordIds.flatMap(wordId => (wordId === id ? replacementIds : [wordId]))
+      }))
+      .filter(group => group.wordIds.length > 0);
+
+  return {
+    ...data,
+    lines: remap(data.lines),
+    paragraphs: remap(data.paragraphs),
+    blocks: remap(data.blocks)
+  };
+}
+
+// Undo the replacement of a single word, leaving every other edit in place. A merged
+// line or paragraph edit is split back into the words it replaced.
+export function revertWord(data: OCRData, id: string): OCRData {
+  const index = data.words.findIndex(word => word.id === id);
+  if (index === -1) return data;
+
+  const restored = expandMerged(data.words[index]).map(word => ({
+    ...word,
+    text: word.originalText ?? word.text,
+    isEdited: false,
+    isSelected: false,
+    customColor: undefined,
+    hasBackgroundBox: undefined,
+    backgroundBoxPaddingTop: undefined,
+    backgroundBoxPaddingBottom: undefined,
+    backgroundBoxPaddingLeft: undefined,
+    backgroundBoxPaddingRight: undefined,
+    backgroundBoxColor: undefined,
+    fontFamily: undefined,
+    fontWeight: undefined,
+    fontStyle: undefined,
+    fontFit: undefined,
+    fontSize: undefined,
+    fontSizeCalibration: undefined,
+    letterSpacing: undefined,
+    textAlign: undefined,
+    paragraphLayout: undefined,
+    layerOrder: undefined,
+    layerHidden: undefined
+  }));
+  const words = [...data.words];
+  words.splice(index, 1, ...restored);
+  return replaceWordIdInGroups({ ...data, words }, id, restored.map(word => word.id));
+}
+
+export function updateWordBBox(data: OCRData, id: string, bbox: OCRWord['bbox']): OCRData {
+  return {
+    ...data,
+    words: data.words.map(word => (word.id === id ? { ...word, bbox } : word))
+  };
+}
+
+export function removeWord(data: OCRData, id: string): OCRData {
+  return replaceWordIdInGroups({ ...data, words: data.words.filter(word => word.id !== id) }, id, []);
+}
+
+// Add a manually drawn word. It joins the line it sits on (kept in left-to-right order),
+// or gets a line, paragraph and block of its own when it overlaps none.
+export function addWord(data: OCRData, word: OCRWord): OCRData {
+  const height = word.bbox.y1 - word.bbox.y0;
+  const line = data.lines.find(l => {
+    const overlap = Math.min(l.bbox.y1, word.bbox.y1) - Math.max(l.bbox.y0, word.bbox.y0);
+    return overlap > height / 2;
+  });
+
+  if (!line) {
+    const group = (prefix: string): OCRTextGroup => ({
+      id: `${prefix}_${word.id}`,
+      text: word.text,
+      confidence: word.confidence,
+      bbox: { ...word.bbox },
+      wordIds: [word.id]
+    });
+    return {
+      words: [...data.words, word],
+      lines: [...data.lines, group('line')],
+      paragraphs: [...data.paragraphs, group('paragraph')],
+      blocks: [...data.blocks, group('block')]
+    };
+  }
+
+  // Insert after the last word of the line that starts left of the new one
+  const lineWords = getGroupWords(data, line);
+  const before = lineWords.filter(w => w.bbox.x0 <= word.bbox.x0).pop();
+  const insertInto = (group: OCRTextGroup): OCRTextGroup => {
+    if (!group.wordIds.some(id => line.wordIds.includes(id))) return group;
+    const ids = [...group.wordIds];
+    const anchor = before ? ids.indexOf(before.id) + 1 : ids.indexOf(line.wordIds[0]);
+    ids.splice(Math.max(0, anchor), 0, word.id);
+    const bbox = {
+      x0: Math.min(group.bbox.x0, word.bbox.x0),
+      y0: Math.min(group.bbox.y0, word.bbox.y0),
+      x1: Math.max(group.bbox.x1, word.bbox.x1),
+      y1: Math.max(group.bbox.y1, word.bbox.y1)
+    };
+    return { ...group, bbox, wordIds: ids };
+  };
+
+  const words = [...data.words];
+  const anchorIndex = before ? words.findIndex(w => w.id === before.id) + 1 : words.findIndex(w => w.id === line.wordIds[0]);
+  words.splice(anchorIndex < 0 ? words.length : anchorIndex, 0, { ...word, baseline: word.baseline ?? line.baseline });
+
+  return {
+    words,
+    lines: data.lines.map(insertInto),
+    paragraphs: data.paragraphs.map(insertInto),
+    blocks: data.blocks.map(insertInto)
+  };
+}
+
+// Split an unedited word into two at a character index; the box is divided in
+// proportion to the number of characters on each side
+export function splitWord(data: OCRData, id: string, splitIndex: number): OCRData {
+  const word = data.words.find(w => w.id === id);
+  if (!word || splitIndex <= 0 || splitIndex >= word.text.length) return data;
+
+  const leftText = word.text.slice(0, splitIndex).trim();
+  const rightText = word.text.slice(splitIndex).trim();
+  const { x0, y0, x1, y1 } = word.bbox;
+  const splitX = Math.round(x0 + (x1 - x0) * (splitIndex / word.text.length));
+
+  const left: OCRWord = {
+    ...word,
+    id: `${id}_a`,
+    text: leftText,
+    originalText: leftText,
+    bbox: getSubBox(word, { x0, y0, x1: splitX, y1 }),
+    isSelected: false
+  };
+  const right: OCRWord = {
+    ...word,
+    id: `${id}_b`,
+    text: rightText,
+    originalText: rightText,
+    bbox: getSubBox(word, { x0: splitX, y0, x1, y1 }),
+    isSelected: false
+  };
+
+  const words = data.words.flatMap(w => (w.id === id ? [left, right] : [w]));
+  return replaceWordIdInGroups({ ...data, words }, id, [left.id, right.id]);
+}
+
+// The word following this one on the same line, if any
+export function getNextWordInLine(data: OCRData, id: string): OCRWord | undefined {
+  const line = data.lines.find(l => l.wordIds.includes(id));
+  if (!line) return undefined;
+  const nextId = line.wordIds[line.wordIds.indexOf(id) + 1];
+  return data.words.find(w => w.id === nextId);
+}
+
+// Permanently join a word with the next one on its line, e.g. when OCR split "sign" "up".
+// Unlike a line edit the result has no mergedWords, so resetting keeps the correction.
+export function mergeWithNextWord(data: OCRData, id: string): OCRData {
+  const word = data.words.find(w => w.id === id);
+  const next = getNextWordInLine(data, id);
+  if (!word || !next) return data;
+
+  const text = `${word.text} ${next.text}`;
+  const merged: OCRWord = {
+    ...word,
+    id: `${word.id}_${next.id}`,
+    text,
+    originalText: `${word.originalText ?? word.text} ${next.originalText ?? next.text}`,
+    confidence: Math.min(word.confidence, next.confidence),
+    bbox: getSpanningBox([word, next], word.angle),
+    isSelected: false
+  };
+
+  return mergeWords(data, [word.id, next.id], merged);
+}
+
+// Resize handles drawn on the selected word's box, named by compass direction
+export type BoxHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export function getBoxHandles(bbox: Bbox): { handle: BoxHandle; x: number; y: number }[] {
+  const { x0, y0, x1, y1 } = bbox;
+  const cx = (x0 + x1) / 2;
+  const cy = (y0 + y1) / 2;
+  return [
+    { handle: 'nw', x: x0, y: y0 },
+    { handle: 'n', x: cx, y: y0 },
+    { handle: 'ne', x: x1, y: y0 },
+    { handle: 'e', x: x1, y: cy },
+    { handle: 'se', x: x1, y: y1 },
+    { handle: 's', x: cx, y: y1 },
+    { handle: 'sw', x: x0, y: y1 },
+    { handle: 'w', x: x0, y: cy }
+  ];
+}
+
+// Move the edges a handle controls to the pointer position, keeping the box at least 1px
+export function resizeBBox(bbox: Bbox, handle: BoxHandle, x: number, y: number): Bbox {
+  let { x0, y0, x1, y1 } = bbox;
+  if (handle.includes('w')) x0 = Math.min(x, x1 - 1);
+  if (handle.includes('e')) x1 = Math.max(x, x0 + 1);
+  if (handle.includes('n')) y0 = Math.min(y, y1 - 1);
+  if (handle.includes('s')) y1 = Math.max(y, y0 + 1);
+  return { x0, y0, x1, y1 };
+}
+
+// Copy a region of the image onto a new canvas, scaled up so small text
+// (status bars, footnotes) has enough pixels for the recognizer
+export function cropAndUpscale(
+  source: HTMLImageElement | HTMLCanvasElement,
+  region: ImageRegion,
+  scale: number
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(region.width * scale);
+  canvas.height = Math.round(region.height * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+}
+
+// Map coordinates recognized on a scaled crop back to the full image
+export function mapOCRDataToImage(data: OCRData, region: ImageRegion, scale: number): OCRData {
+  const mapBox = <T extends { x0: number; y0: number; x1: number; y1: number }>(box: T): T => ({
+    ...box,
+    x0: Math.round(region.x + box.x0 / scale),
+    y0: Math.round(region.y + box.y0 / scale),
+    x1: Math.round(region.x + box.x1 / scale),
+    y1: Math.round(region.y + box.y1 / scale)
+  });
+  const mapGroup = (group: OCRTextGroup): OCRTextGroup => ({
+    ...group,
+    bbox: mapBox(group.bbox),
+    baseline: group.baseline && mapBox(group.baseline)
+  });
+
+  return {
+    words: data.words.map(word => ({
+      ...word,
+      bbox: mapBox(word.bbox),
+      baseline: word.baseline && mapBox(word.baseline)
+    })),
+    lines: data.lines.map(mapGroup),
+    paragraphs: data.paragraphs.map(mapGroup),
+    blocks: data.blocks.map(mapGroup)
+  };
+}
+
+const centerInRegion = (bbox: Bbox, region: ImageRegion) => {
+  const cx = (bbox.x0 + bbox.x1) / 2;
+  const cy = (bbox.y0 + bbox.y1) / 2;
+  return cx >= region.x && cx <= region.x + region.width && cy >= region.y && cy <= region.y + region.height;
+};
+
+const boxesOverlap = (a: Bbox, b: Bbox) =>
+  a.x0 < b.x1 && a.x1 > b.x0 && a.y0 < b.y1 && a.y1 > b.y0;
+
+// Merge the result of a region re-scan into the existing data. Unedited words in the
+// region are superseded by the new ones; edited words are kept and win over overlaps.
+export function mergeRegionOCRData(data: OCRData, region: ImageRegion, regionData: OCRData): OCRData {
+  const removedIds = new Set(
+    data.words.filter(word => !word.isEdited && centerInRegion(word.bbox, region)).map(word => word.id)
+  );
+  const keptWords = data.words.filter(word => !removedIds.has(word.id));
+  const editedInRegion = keptWords.filter(word => word.isEdited && centerInRegion(word.bbox, region));
+  const newWords = regionData.words.filter(word =>
+    !editedInRegion.some(edited => boxesOverlap(edited.bbox, word.bbox))
+  );
+  const words = [...keptWords, ...newWords];
+  const wordIds = new Set(words.map(word => word.id));
+
+  const pruneGroups = (groups: OCRTextGroup[]) =>
+    groups
+      .map(group => ({ ...group, wordIds: group.wordIds.filter(id => wordIds.has(id)) }))
+      .filter(group => group.wordIds.length > 0);
+
+  return {
+    words,
+    lines: pruneGroups([...data.lines, ...regionData.lines]),
+    paragraphs: pruneGroups([...data.paragraphs, ...regionData.paragraphs]),
+    blocks: pruneGroups([...data.blocks, ...regionData.blocks])
+  };
+}
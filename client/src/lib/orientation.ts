@@ -0,0 +1,194 @@
+import type { OCRBaseline, OCRData, OCRTextGroup, OCRWord } from "./ocr";
+
+// Rotated text support. A box with an `angle` is the rectangle `bbox` rotated by
+// `angle` radians (clockwise on screen) around its own center, so `bbox` gives the
+// size of the text in its own frame and the center is unchanged by the rotation.
+
+type Point = { x: number; y: number };
+type RotatableBox = { bbox: OCRWord['bbox']; angle?: number };
+
+// Skew below ~1° is indistinguishable from baseline noise in normal screenshots
+const MIN_SKEW = Math.PI / 180;
+
+export function hasRotation(box: RotatableBox): boolean {
+  return !!box.angle && Math.abs(box.angle) >= MIN_SKEW / 2;
+}
+
+export function getBoxCenter(box: RotatableBox): Point {
+  return { x: (box.bbox.x0 + box.bbox.x1) / 2, y: (box.bbox.y0 + box.bbox.y1) / 2 };
+}
+
+const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+// Corners of the box in image coordinates, clockwise from the top-left of the text
+export function getBoxCorners(box: RotatableBox): Point[] {
+  const { x0, y0, x1, y1 } = box.bbox;
+  const center = getBoxCenter(box);
+  return [
+    { x: x0, y: y0 },
+    { x: x1, y: y0 },
+    { x: x1, y: y1 },
+    { x: x0, y: y1 }
+  ].map(p => rotatePoint(p, center, box.angle || 0));
+}
+
+// Axis-aligned rectangle covering the rotated box
+export function getOuterBBox(box: RotatableBox): OCRWord['bbox'] {
+  const corners = getBoxCorners(box);
+  return {
+    x0: Math.floor(Math.min(...corners.map(p => p.x))),
+    y0: Math.floor(Math.min(...corners.map(p => p.y))),
+    x1: Math.ceil(Math.max(...corners.map(p => p.x))),
+    y1: Math.ceil(Math.max(...corners.map(p => p.y)))
+  };
+}
+
+// Convert an image point into the box's own (unrotated) frame
+export function toBoxFrame(box: RotatableBox, point: Point): Point {
+  return rotatePoint(point, getBoxCenter(box), -(box.angle || 0));
+}
+
+export function containsPoint(box: RotatableBox, x: number, y: number): boolean {
+  const local = hasRotation(box) ? toBoxFrame(box, { x, y }) : { x, y };
+  const { x0, y0, x1, y1 } = box.bbox;
+  return local.x >= x0 && local.x <= x1 && local.y >= y0 && local.y <= y1;
+}
+
+// Place a rectangle given in the box's own frame (e.g. one half of a split word) back into
+// image coordinates, keeping the box's angle
+export function getSubBox(box: RotatableBox, rect: OCRWord['bbox']): OCRWord['bbox'] {
+  const center = rotatePoint(
+    { x: (rect.x0 + rect.x1) / 2, y: (rect.y0 + rect.y1) / 2 },
+    getBoxCenter(box),
+    box.angle || 0
+  );
+  const halfW = (rect.x1 - rect.x0) / 2;
+  const halfH = (rect.y1 - rect.y0) / 2;
+  return { x0: center.x - halfW, y0: center.y - halfH, x1: center.x + halfW, y1: center.y + halfH };
+}
+
+// Smallest box at the given angle that covers all of the boxes
+export function getSpanningBox(boxes: RotatableBox[], angle = 0): OCRWord['bbox'] {
+  const origin = { x: 0, y: 0 };
+  const corners = boxes.flatMap(getBoxCorners).map(p => rotatePoint(p, origin, -angle));
+  const x0 = Math.min(...corners.map(p => p.x));
+  const y0 = Math.min(...corners.map(p => p.y));
+  const x1 = Math.max(...corners.map(p => p.x));
+  const y1 = Math.max(...corners.map(p => p.y));
+  return getSubBox({ bbox: { x0, y0, x1, y1 }, angle }, { x0, y0, x1, y1 });
+}
+
+// The baseline expressed in the box's own frame, so text can be positioned on it after rotating
+export function getBaselineInBoxFrame(box: RotatableBox, baseline: OCRBaseline): OCRBaseline {
+  const start = toBoxFrame(box, { x: baseline.x0, y: baseline.y0 });
+  const end = toBoxFrame(box, { x: baseline.x1, y: baseline.y1 });
+  return { x0: start.x, y0: start.y, x1: end.x, y1: end.y };
+}
+
+// Draw the page rotated clockwise by a multiple of 90° so its text is upright,
+// as reported by orientation detection
+export function rotateCanvasUpright(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  const quarter = ((Math.round(degrees / 90) % 4) + 4) % 4;
+  if (quarter === 0) return source;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = quarter === 2 ? source.width : source.height;
+  canvas.height = quarter === 2 ? source.height : source.width;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return source;
+
+  if (quarter === 1) ctx.translate(source.height, 0);
+  if (quarter === 2) ctx.translate(source.width, source.height);
+  if (quarter === 3) ctx.translate(0, source.width);
+  ctx.rotate((quarter * Math.PI) / 2);
+  ctx.drawImage(source, 0, 0);
+  return canvas;
+}
+
+// Inverse of rotateCanvasUpright for a single point; width/height are of the source
+const fromUpright = (point: Point, quarter: number, width: number, height: number): Point => {
+  if (quarter === 1) return { x: point.y, y: height - point.x };
+  if (quarter === 2) return { x: width - point.x, y: height - point.y };
+  if (quarter === 3) return { x: width - point.y, y: point.x };
+  return point;
+};
+
+// Map data recognized on the upright canvas back onto the source canvas. Boxes keep
+// their size in their own frame and pick up the page rotation as their angle.
+export function mapFromUpright(data: OCRData, degrees: number, width: number, height: number): OCRData {
+  const quarter = ((Math.round(degrees / 90) % 4) + 4) % 4;
+  if (quarter === 0) return data;
+
+  const pageAngle = -(quarter * Math.PI) / 2;
+  const mapBox = <T extends RotatableBox & { baseline?: OCRBaseline }>(box: T): T => {
+    const { x0, y0, x1, y1 } = box.bbox;
+    const center = fromUpright(getBoxCenter(box), quarter, width, height);
+    const halfW = (x1 - x0) / 2;
+    const halfH = (y1 - y0) / 2;
+    const baseline = box.baseline && (() => {
+      const start = fromUpright({ x: box.baseline.x0, y: box.baseline.y0 }, quarter, width, height);
+      const end = fromUpright({ x: box.baseline.x1, y: box.baseline.y1 }, quarter, width, height);
+      return { x0: start.x, y0: start.y, x1: end.x, y1: end.y };
+    })();
+    return {
+      ...box,
+      bbox: { x0: center.x - halfW, y0: center.y - halfH, x1: center.x + halfW, y1: center.y + halfH },
+      baseline,
+      angle: pageAngle + (box.angle || 0)
+    };
+  };
+
+  return {
+    words: data.words.map(mapBox),
+    lines: data.lines.map(mapBox),
+    paragraphs: data.paragraphs.map(mapBox),
+    blocks: data.blocks.map(mapBox)
+  };
+}
+
+// Turn the axis-aligned box of text tilted by `angle` into the tight rectangle in the text's
+// own frame. Solves w = W·cos + H·sin, h = W·sin + H·cos for W and H.
+const unrotateBBox = (bbox: OCRWord['bbox'], angle: number): OCRWord['bbox'] | null => {
+  const cos = Math.cos(Math.abs(angle));
+  const sin = Math.sin(Math.abs(angle));
+  const det = cos * cos - sin * sin;
+  const w = bbox.x1 - bbox.x0;
+  const h = bbox.y1 - bbox.y0;
+  const width = (w * cos - h * sin) / det;
+  const height = (h * cos - w * sin) / det;
+  if (det <= 0.1 || width <= 1 || height <= 1) return null;
+
+  const cx = (bbox.x0 + bbox.x1) / 2;
+  const cy = (bbox.y0 + bbox.y1) / 2;
+  return { x0: cx - width / 2, y0: cy - height / 2, x1: cx + width / 2, y1: cy + height / 2 };
+};
+
+// Estimate each line's tilt from its baseline and give the line and its words that angle
+export function applyLineSkew(data: OCRData): OCRData {
+  const skewed = new Map<string, number>();
+  const lines = data.lines.map((line): OCRTextGroup => {
+    if (!line.baseline) return line;
+    const { x0, y0, x1, y1 } = line.baseline;
+    const skew = Math.atan2(y1 - y0, x1 - x0);
+    const bbox = Math.abs(skew) >= MIN_SKEW ? unrotateBBox(line.bbox, skew) : null;
+    if (!bbox) return line;
+    line.wordIds.forEach(id => skewed.set(id, skew));
+    return { ...line, bbox, angle: skew };
+  });
+
+  const words = data.words.map((word): OCRWord => {
+    const skew = skewed.get(word.id);
+    if (skew === undefined) return word;
+    const bbox = unrotateBBox(word.bbox, skew);
+    return bbox ? { ...word, bbox, angle: skew } : word;
+  });
+
+  return { ...data, words, lines };
+}
@@ -0,0 +1,189 @@
+import type { OCRWord } from "./ocr";
+import { getBaselineInBoxFrame, getBoxCenter, hasRotation } from "./orientation";
+
+// Minimal single-page PDF writer for searchable exports: the edited canvas as a lossless
+// page image, with every word written on top in text render mode 3 (invisible) so viewers
+// can search, select and copy it. Like Tesseract's PDF renderer, the text uses a font
+// without glyphs whose CIDs are UTF-16 code units, mapped back to Unicode via ToUnicode,
+// so any script stays searchable without embedding a real font.
+
+// Advance width of every glyph in the text layer, in 1/1000 of the font size
+const GLYPH_WIDTH = 500;
+
+const encoder = new TextEncoder();
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// RGB samples of the canvas; the alpha channel is dropped
+function canvasToRGB(canvas: HTMLCanvasElement): Uint8Array {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const rgb = new Uint8Array(canvas.width * canvas.height * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    rgb[j] = data[i];
+    rgb[j + 1] = data[i + 1];
+    rgb[j + 2] = data[i + 2];
+  }
+  return rgb;
+}
+
+const hex4 = (n: number) => n.toString(16).toUpperCase().padStart(4, '0');
+
+const toUTF16Hex = (text: string) =>
+  Array.from({ length: text.length }, (_, i) => hex4(text.charCodeAt(i))).join('');
+
+const num = (n: number) => (Math.round(n * 1000) / 1000).toString();
+
+// Map every CID back to the same UTF-16 code unit. bfrange entries may only vary in the
+// last byte and a block holds at most 100 of them.
+function buildToUnicodeCMap(): string {
+  const ranges: string[] = [];
+  for (let high = 0; high < 256; high++) {
+    // Surrogate halves are not characters on their own
+    if (high >= 0xd8 && high <= 0xdf) continue;
+    ranges.push(`<${hex4(high << 8)}> <${hex4((high << 8) | 0xff)}> <${hex4(high << 8)}>`);
+  }
+
+  const blocks: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const chunk = ranges.slice(i, i + 100);
+    blocks.push(`${chunk.length} beginbfrange\n${chunk.join('\n')}\nendbfrange`);
+  }
+
+  return [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...blocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+}
+
+// Text-layer operators for one word, stretched horizontally to fill its box. PDF space has
+// its origin at the bottom-left with y up, so image y is flipped against the page height.
+function wordOperators(word: OCRWord, pageHeight: number): string | null {
+  const text = word.text.trim();
+  if (!text) return null;
+
+  const { x0, y0, x1, y1 } = word.bbox;
+  const width = x1 - x0;
+  const height = y1 - y0;
+  if (width <= 0 || height <= 0) return null;
+
+  const rotated = hasRotation(word);
+  const baseline = word.baseline && (rotated ? getBaselineInBoxFrame(word, word.baseline) : word.baseline);
+  let baseY = y1 - height * 0.2;
+  if (baseline) {
+    const span = baseline.x1 - baseline.x0;
+    const t = span !== 0 ? (x0 - baseline.x0) / span : 0;
+    baseY = Math.min(y1, Math.max(y0, baseline.y0 + (baseline.y1 - baseline.y0) * t));
+  }
+
+  // Start of the baseline in image coordinates, turned with the box for tilted words
+  const angle = word.angle || 0;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  let originX = x0;
+  let originY = baseY;
+  if (rotated) {
+    const center = getBoxCenter(word);
+    const dx = x0 - center.x;
+    const dy = baseY - center.y;
+    originX = center.x + dx * cos - dy * sin;
+    originY = center.y + dx * sin + dy * cos;
+  }
+
+  const fontSize = height;
+  const scale = (width / (text.length * fontSize * (GLYPH_WIDTH / 1000))) * 100;
+  // A clockwise turn on screen is a negative angle in PDF's y-up space
+  const matrix = [cos, -sin, sin, cos, originX, pageHeight - originY].map(num).join(' ');
+
+  return `/F1 ${num(fontSize)} Tf ${num(scale)} Tz ${matrix} Tm <${toUTF16Hex(text)}> Tj`;
+}
+
+// Build a one-page PDF the size of the canvas (one image pixel per point)
+export async function buildSearchablePDF(canvas: HTMLCanvasElement, words: OCRWord[]): Promise<Blob> {
+  const width = canvas.width;
+  const height = canvas.height;
+  const image = await deflate(canvasToRGB(canvas));
+
+  const textLayer = words
+    .map(word => wordOperators(word, height))
+    .filter((op): op is string => op !== null);
+  const content = [
+    `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`,
+    'BT',
+    '3 Tr',
+    ...textLayer,
+    'ET'
+  ].join('\n');
+
+  const toUnicode = buildToUnicodeCMap();
+
+  // Objects are numbered from 1 in this order
+  const objects: (string | { dict: string; stream: Uint8Array })[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Contents 4 0 R ` +
+      '/Resources << /XObject << /Im0 5 0 R >> /Font << /F1 6 0 R >> >> >>',
+    { dict: '<<', stream: encoder.encode(content) },
+    {
+      dict: `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} ` +
+        '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode',
+      stream: image
+    },
+    '<< /Type /Font /Subtype /Type0 /BaseFont /GlyphLessFont /Encoding /Identity-H ' +
+      '/DescendantFonts [7 0 R] /ToUnicode 8 0 R >>',
+    '<< /Type /Font /Subtype /CIDFontType2 /BaseFont /GlyphLessFont ' +
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (Identity) /Supplement 0 >> ' +
+      `/FontDescriptor 9 0 R /CIDToGIDMap /Identity /DW ${GLYPH_WIDTH} >>`,
+    { dict: '<<', stream: encoder.encode(toUnicode) },
+    '<< /Type /FontDescriptor /FontName /GlyphLessFont /Flags 5 ' +
+      `/FontBBox [0 0 ${GLYPH_WIDTH} 1000] /ItalicAngle 0 /Ascent 1000 /Descent 0 /CapHeight 1000 /StemV 80 >>`
+  ];
+
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment marks the file as binary for transfer tools
+  write('%PDF-1.4\n%âãÏÓ\n');
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    write(`${index + 1} 0 obj\n`);
+    if (typeof object === 'string') {
+      write(`${object}\n`);
+    } else {
+      write(`${object.dict} /Length ${object.stream.length} >>\nstream\n`);
+      write(object.stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${offset.toString().padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: 'application/pdf' });
+}
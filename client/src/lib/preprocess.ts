@@ -0,0 +1,151 @@
+// Image preprocessing applied before recognition. Every stage works on a copy;
+// the only geometric change is upscaling, reported back as `scale` so bounding
+// boxes can be mapped to original image pixels.
+
+export type InvertMode = 'off' | 'auto' | 'on';
+
+export interface PreprocessOptions {
+  grayscale: boolean;
+  invert: InvertMode;
+  binarize: boolean;
+  upscale: 1 | 2 | 3;
+  denoise: boolean;
+}
+
+export interface PreprocessResult {
+  canvas: HTMLCanvasElement;
+  scale: number;
+  inverted: boolean;
+}
+
+export const defaultPreprocessOptions: PreprocessOptions = {
+  grayscale: true,
+  invert: 'auto',
+  binarize: false,
+  upscale: 1,
+  denoise: false,
+};
+
+// Keep the processed image within what the OCR worker can comfortably hold in memory
+const MAX_PROCESSED_SIZE = 6000;
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+// Dark-mode screenshots: most pixels are darker than mid-gray
+export function isDarkBackground(data: Uint8ClampedArray): boolean {
+  let dark = 0;
+  let total = 0;
+  // Every 4th pixel is plenty to judge the overall tone
+  for (let i = 0; i < data.length; i += 16) {
+    if (luminance(data[i], data[i + 1], data[i + 2]) < 128) dark++;
+    total++;
+  }
+  return total > 0 && dark / total > 0.5;
+}
+
+// 3x3 median filter on one channel, removes JPEG speckles without blurring edges much
+function medianFilter(channel: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(channel.length);
+  const neighbours = new Uint8Array(9);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = Math.min(height - 1, Math.max(0, y + dy));
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = Math.min(width - 1, Math.max(0, x + dx));
+          neighbours[n++] = channel[yy * width + xx];
+        }
+      }
+      neighbours.sort();
+      out[y * width + x] = neighbours[4];
+    }
+  }
+  return out;
+}
+
+// Bradley-Roth adaptive threshold: a pixel is foreground when it is noticeably darker
+// than the mean of its neighbourhood, so uneven lighting and gradients don't matter
+function adaptiveThreshold(gray: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 1; y <= height; y++) {
+    let rowSum = 0;
+    for (let x = 1; x <= width; x++) {
+      rowSum += gray[(y - 1) * width + (x - 1)];
+      integral[y * (width + 1) + x] = integral[(y - 1) * (width + 1) + x] + rowSum;
+    }
+  }
+
+  const half = Math.max(7, Math.round(Math.max(width, height) / 32));
+  const threshold = 0.15;
+  const out = new Uint8ClampedArray(gray.length);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const count = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * (width + 1) + x1] - integral[y0 * (width + 1) + x1]
+        - integral[y1 * (width + 1) + x0] + integral[y0 * (width + 1) + x0];
+      out[y * width + x] = gray[y * width + x] * count < sum * (1 - threshold) ? 0 : 255;
+    }
+  }
+  return out;
+}
+
+export function preprocessImage(
+  source: HTMLImageElement | HTMLCanvasElement,
+  options: PreprocessOptions
+): PreprocessResult {
+  const sourceWidth = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const sourceHeight = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = Math.max(1, Math.min(options.upscale, MAX_PROCESSED_SIZE / Math.max(sourceWidth, sourceHeight)));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return { canvas, scale, inverted: false };
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const { width, height } = canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+  const pixelCount = width * height;
+
+  const inverted = options.invert === 'on' || (options.invert === 'auto' && isDarkBackground(data));
+  const toGray = options.grayscale || options.binarize;
+
+  if (toGray) {
+    let gray = new Uint8ClampedArray(pixelCount);
+    for (let i = 0; i < pixelCount; i++) {
+      gray[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+    }
+    if (options.denoise) gray = medianFilter(gray, width, height);
+    if (inverted) {
+      for (let i = 0; i < pixelCount; i++) gray[i] = 255 - gray[i];
+    }
+    if (options.binarize) gray = adaptiveThreshold(gray, width, height);
+
+    for (let i = 0; i < pixelCount; i++) {
+      data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = gray[i];
+    }
+  } else if (options.denoise || inverted) {
+    for (let c = 0; c < 3; c++) {
+      let channel = new Uint8ClampedArray(pixelCount);
+      for (let i = 0; i < pixelCount; i++) channel[i] = data[i * 4 + c];
+      if (options.denoise) channel = medianFilter(channel, width, height);
+      for (let i = 0; i < pixelCount; i++) data[i * 4 + c] = inverted ? 255 - channel[i] : channel[i];
+    }
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+  return { canvas, scale, inverted };
+}
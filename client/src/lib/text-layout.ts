@@ -0,0 +1,170 @@
+import type { OCRData, OCRParagraphLayout, OCRWord } from "./ocr";
+import { getBaselineInBoxFrame, getBoxCenter, toBoxFrame } from "./orientation";
+import { alignTextX, fillSpacedText, measureSpacedText, toCanvasFont, type Typography } from "./typography";
+
+// Multi-line replacements: text wrapped to the width of a line or paragraph selection
+// and set on the line pitch of the text it replaces. Layout values are in the box's own
+// frame, relative to its top edge, so they survive rotation.
+
+// Smallest size text is shrunk to when it would need more lines than the original had
+const MIN_FONT_SIZE = 8;
+// Line pitch assumed for a single detected line, relative to its height
+const SINGLE_LINE_PITCH = 1.25;
+
+// Measure the detected lines a selection covers; undefined when it covers none
+export function getParagraphLayout(data: OCRData, target: OCRWord): OCRParagraphLayout | undefined {
+  const wordIds = new Set((target.mergedWords || [target]).map(word => word.id));
+  const lines = data.lines
+    .filter(line => line.wordIds.some(id => wordIds.has(id)))
+    .map(line => {
+      const height = line.bbox.y1 - line.bbox.y0;
+      const center = toBoxFrame(target, getBoxCenter(line));
+      let baseline = center.y + height / 2 - height * 0.2;
+      if (line.baseline) {
+        // Baseline height in the middle of the selection
+        const frame = getBaselineInBoxFrame(target, line.baseline);
+        const span = frame.x1 - frame.x0;
+        const mid = (target.bbox.x0 + target.bbox.x1) / 2;
+        const t = span !== 0 ? (mid - frame.x0) / span : 0;
+        baseline = frame.y0 + (frame.y1 - frame.y0) * t;
+      }
+      return { height, baseline };
+    })
+    .sort((a, b) => a.baseline - b.baseline);
+
+  if (lines.length === 0) return undefined;
+
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+  const lineBoxHeight = lines.reduce((sum, line) => sum + line.height, 0) / lines.length;
+  return {
+    lineCount: lines.length,
+    lineHeight: lines.length > 1 ? (last.baseline - first.baseline) / (lines.length - 1) : lineBoxHeight * SINGLE_LINE_PITCH,
+    firstBaseline: first.baseline - target.bbox.y0,
+    lineBoxHeight
+  };
+}
+
+// Ascent and ink height of the original text per pixel of font size
+function measureSample(ctx: CanvasRenderingContext2D, sample: string, typography: Typography) {
+  const reference = 100;
+  ctx.font = toCanvasFont(typography, reference);
+  const metrics = ctx.measureText(sample || 'Hg');
+  return {
+    ascent: metrics.actualBoundingBoxAscent / reference,
+    height: (metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent) / reference
+  };
+}
+
+// Greedy word wrap in the context's current font, one list of lines per paragraph of the
+// text (newlines are kept as breaks). A word wider than a whole line is broken between
+// characters.
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, letterSpacing: number): string[][] {
+  const fits = (line: string) => measureSpacedText(ctx, line, letterSpacing) <= maxWidth;
+
+  return text.split('\n').map(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+
+      line = '';
+      Array.from(word).forEach(char => {
+        if (line && !fits(line + char)) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      });
+    });
+    lines.push(line);
+    return lines;
+  });
+}
+
+interface ParagraphFit {
+  fontSize: number;
+  lineHeight: number;
+  firstBaseline: number; // Below the box top
+  paragraphs: string[][];
+}
+
+// Wrap at the size matching the original lines (times the calibration factor), shrinking
+// text that would need more lines than the original had. A fixed size is never shrunk.
+// `sample` is the original text, used to find the size that matches its height.
+export function fitParagraph(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  sample: string,
+  typography: Typography,
+  width: number,
+  layout: OCRParagraphLayout
+): ParagraphFit {
+  const { ascent, height } = measureSample(ctx, sample, typography);
+  const natural = height > 0 ? layout.lineBoxHeight / height : layout.lineBoxHeight;
+  const fitted = natural * typography.sizeCalibration;
+  const fixed = typography.fontFit === 'fixed' && typography.fontSize ? typography.fontSize : null;
+  let fontSize = fixed ?? fitted;
+
+  for (;;) {
+    ctx.font = toCanvasFont(typography, fontSize);
+    const paragraphs = wrapText(ctx, text, width, typography.letterSpacing);
+    const lineCount = paragraphs.reduce((sum, lines) => sum + lines.length, 0);
+    if (fixed || lineCount <= layout.lineCount || fontSize <= MIN_FONT_SIZE) {
+      return {
+        fontSize,
+        // The original pitch at the original size, scaled with calibration and shrinking
+        lineHeight: layout.lineHeight * (fontSize / natural),
+        // Keep the top of the text where the original's was
+        firstBaseline: layout.firstBaseline - (natural - fontSize) * ascent,
+        paragraphs
+      };
+    }
+    fontSize = Math.max(MIN_FONT_SIZE, fontSize * 0.95);
+  }
+}
+
+// Draw wrapped text into the box on the original line pitch. Justified lines stretch the
+// gaps between words, except the last line of each paragraph.
+export function drawParagraph(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  sample: string,
+  typography: Typography,
+  x0: number,
+  y0: number,
+  x1: number,
+  layout: OCRParagraphLayout
+) {
+  const width = x1 - x0;
+  const { fontSize, lineHeight, firstBaseline, paragraphs } = fitParagraph(ctx, text, sample, typography, width, layout);
+  const spacing = typography.letterSpacing;
+
+  ctx.font = toCanvasFont(typography, fontSize);
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+
+  let y = y0 + firstBaseline;
+  paragraphs.forEach(lines => {
+    lines.forEach((line, i) => {
+      const words = line.split(' ');
+      if (typography.textAlign === 'justify' && i < lines.length - 1 && words.length > 1) {
+        const wordsWidth = words.reduce((sum, word) => sum + measureSpacedText(ctx, word, spacing), 0);
+        const gap = (width - wordsWidth) / (words.length - 1);
+        let x = x0;
+        words.forEach(word => {
+          fillSpacedText(ctx, word, x, y, spacing);
+          x += measureSpacedText(ctx, word, spacing) + gap;
+        });
+      } else {
+        fillSpacedText(ctx, line, alignTextX(typography.textAlign, x0, x1, measureSpacedText(ctx, line, spacing)), y, spacing);
+      }
+      y += lineHeight;
+    });
+  });
+}
@@ -0,0 +1,168 @@
+import type { OCRWord } from "./ocr";
+
+// How a replacement is typeset. Every edited word stores its own copy, so changing the
+// controls later only affects new edits.
+
+export type FontStyle = NonNullable<OCRWord['fontStyle']>;
+export type TextAlign = NonNullable<OCRWord['textAlign']>;
+export type FontFit = NonNullable<OCRWord['fontFit']>;
+
+export interface Typography {
+  fontFamily: string;
+  fontWeight: number;
+  fontStyle: FontStyle;
+  fontFit: FontFit;
+  fontSize: number | null; // Pixels, for the fixed fit
+  sizeCalibration: number; // Multiplies fitted sizes to correct for font differences
+  letterSpacing: number; // Extra pixels between characters
+  textAlign: TextAlign;
+}
+
+// Replacements were always drawn in bold Arial before typography was stored per word
+export const defaultTypography: Typography = {
+  fontFamily: 'Arial',
+  fontWeight: 700,
+  fontStyle: 'normal',
+  fontFit: 'width',
+  fontSize: null,
+  sizeCalibration: 1,
+  letterSpacing: 0,
+  textAlign: 'left',
+};
+
+// Families offered in the font picker; they ship with most desktop systems
+export const fontFamilies = [
+  'Arial',
+  'Helvetica',
+  'Times New Roman',
+  'Georgia',
+  'Verdana',
+  'Courier New',
+  'Impact',
+  'Trebuchet MS',
+];
+
+export const fontWeights: { value: number; label: string }[] = [
+  { value: 300, label: 'Light' },
+  { value: 400, label: 'Regular' },
+  { value: 500, label: 'Medium' },
+  { value: 600, label: 'Semibold' },
+  { value: 700, label: 'Bold' },
+  { value: 900, label: 'Black' },
+];
+
+export const fontFits: { value: FontFit; label: string }[] = [
+  { value: 'cap-height', label: 'Match cap height' },
+  { value: 'width', label: 'Fit width' },
+  { value: 'shrink', label: 'Shrink to fit' },
+  { value: 'fixed', label: 'Fixed size' },
+];
+
+// Sizes are never fitted below this, however little room there is
+const MIN_FONT_SIZE = 4;
+
+export function getWordTypography(word: OCRWord): Typography {
+  return {
+    fontFamily: word.fontFamily ?? defaultTypography.fontFamily,
+    fontWeight: word.fontWeight ?? defaultTypography.fontWeight,
+    fontStyle: word.fontStyle ?? defaultTypography.fontStyle,
+    // Edits from before fit modes either had a fixed size or were fitted to the width
+    fontFit: word.fontFit ?? (word.fontSize ? 'fixed' : defaultTypography.fontFit),
+    fontSize: word.fontSize ?? null,
+    sizeCalibration: word.fontSizeCalibration ?? defaultTypography.sizeCalibration,
+    letterSpacing: word.letterSpacing ?? defaultTypography.letterSpacing,
+    textAlign: word.textAlign ?? defaultTypography.textAlign,
+  };
+}
+
+// Fields to store on an edited word
+export function toWordTypography(typography: Typography): Partial<OCRWord> {
+  return {
+    fontFamily: typography.fontFamily,
+    fontWeight: typography.fontWeight,
+    fontStyle: typography.fontStyle,
+    fontFit: typography.fontFit,
+    fontSize: typography.fontSize ?? undefined,
+    fontSizeCalibration: typography.sizeCalibration,
+    letterSpacing: typography.letterSpacing,
+    textAlign: typography.textAlign,
+  };
+}
+
+// CSS font shorthand for a canvas context
+export function toCanvasFont(typography: Typography, fontSize: number): string {
+  return `${typography.fontStyle} ${typography.fontWeight} ${fontSize}px "${typography.fontFamily}", sans-serif`;
+}
+
+const characters = (text: string) => Array.from(text);
+
+// Width of the text in the context's current font, including letter spacing
+export function measureSpacedText(ctx: CanvasRenderingContext2D, text: string, letterSpacing: number): number {
+  const width = ctx.measureText(text).width;
+  const count = characters(text).length;
+  return count > 1 ? width + letterSpacing * (count - 1) : width;
+}
+
+// Draw left-aligned text from x. With letter spacing each character is placed on its own,
+// advancing by the width of the text so far so kerning is kept.
+export function fillSpacedText(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, letterSpacing: number) {
+  if (!letterSpacing) {
+    ctx.fillText(text, x, y);
+    return;
+  }
+
+  let drawn = '';
+  characters(text).forEach((char, i) => {
+    ctx.fillText(char, x + ctx.measureText(drawn).width + letterSpacing * i, y);
+    drawn += char;
+  });
+}
+
+// Left edge of the text inside the box for the given alignment. A single justified
+// line starts at the left edge.
+export function alignTextX(textAlign: TextAlign, x0: number, x1: number, textWidth: number): number {
+  if (textAlign === 'center') return (x0 + x1 - textWidth) / 2;
+  if (textAlign === 'right') return x1 - textWidth;
+  return x0;
+}
+
+// Width and ink height of the text per pixel of font size, in the given typography
+function measurePerPixel(ctx: CanvasRenderingContext2D, text: string, typography: Typography) {
+  const reference = 100;
+  ctx.font = toCanvasFont(typography, reference);
+  const metrics = ctx.measureText(text);
+  return {
+    width: metrics.width / reference,
+    height: (metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent) / reference
+  };
+}
+
+// Font size for a single line of text in a box of the original text (`sample`). Width
+// and height scale linearly with the size, so each fit is solved directly.
+// - cap-height: the original text's ink fills the box height, which gives the new text
+//   the original's cap height when the font matches
+// - width: the new text fills the box width
+// - shrink: cap height, reduced only if the new text would overflow the width
+// - fixed: the stored size; the only fit the calibration factor does not apply to
+export function fitFontSize(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  sample: string,
+  typography: Typography,
+  boxWidth: number,
+  boxHeight: number
+): number {
+  if (typography.fontFit === 'fixed' && typography.fontSize) return typography.fontSize;
+
+  const original = measurePerPixel(ctx, sample || text, typography);
+  const byHeight = (original.height > 0 ? boxHeight / original.height : boxHeight) * typography.sizeCalibration;
+
+  const replacement = measurePerPixel(ctx, text, typography);
+  const spacing = typography.letterSpacing * Math.max(0, characters(text).length - 1);
+  const byWidth = replacement.width > 0 ? (boxWidth - spacing) / replacement.width : byHeight;
+
+  let size = byHeight;
+  if (typography.fontFit === 'width') size = byWidth * typography.sizeCalibration;
+  if (typography.fontFit === 'shrink') size = Math.min(byHeight, byWidth);
+  return Math.max(MIN_FONT_SIZE, size);
+}
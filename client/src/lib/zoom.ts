@@ -0,0 +1,30 @@
+// Canvas zoom, as display pixels per image pixel: 1 is 100%, 32 is 3200%
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 32;
+// From this zoom on, a grid outlines every image pixel
+export const PIXEL_GRID_MIN_ZOOM = 8;
+
+// Levels the zoom buttons step through
+const zoomLevels = [0.05, 0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4, 6, 8, 12, 16, 24, 32];
+
+// How fast the wheel zooms: the zoom doubles every ~350px of scrolling
+const WHEEL_ZOOM_RATE = 0.002;
+// Wheel events in lines (Firefox with a mouse) are converted at this many pixels per line
+const WHEEL_LINE_HEIGHT = 16;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const formatZoom = (zoom: number) => `${Math.round(zoom * 100)}%`;
+
+// The next preset level in or out from the current zoom
+export function stepZoom(zoom: number, direction: 1 | -1): number {
+  if (direction === 1) return zoomLevels.find(level => level > zoom * 1.001) ?? MAX_ZOOM;
+  return [...zoomLevels].reverse().find(level => level < zoom / 1.001) ?? MIN_ZOOM;
+}
+
+// Zoom after a wheel event, proportional to how far it scrolled so trackpads zoom smoothly
+export function wheelZoom(zoom: number, event: WheelEvent): number {
+  const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+  return clampZoom(zoom * Math.exp(-delta * WHEEL_ZOOM_RATE));
+}
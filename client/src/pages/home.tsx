@@ -1,11 +1,23 @@
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useLayoutEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import { 
   Upload, 
   Download, 
@@ -18,65 +30,184 @@ import {
   Check,
   Zap,
   Pipette,
-  Info
+  Info,
+  Languages,
+  RefreshCw,
+  ScanText,
+  SlidersHorizontal,
+  SquarePlus,
+  SplitSquareHorizontal,
+  Combine,
+  Trash2,
+  FileText,
+  FileDown,
+  ChevronDown,
+  ChevronUp,
+  TextSearch,
+  ReplaceAll,
+  Undo2,
+  Redo2,
+  Italic,
+  AlignLeft,
+  AlignCenter,
+  AlignRight,
+  AlignJustify,
+  Type,
+  ZoomIn,
+  ZoomOut
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import {
+  addWord,
+  buildOCRData,
+  cropAndUpscale,
+  getBoxHandles,
+  getNextWordInLine,
+  findGroup,
+  getGroupText,
+  getGroups,
+  getLanguageName,
+  groupToWord,
+  mapOCRDataToImage,
+  mergeRegionOCRData,
+  mergeWithNextWord,
+  mergeWords,
+  removeWord,
+  revertWord,
+  resizeBBox,
+  splitWord,
+  unmergeWords,
+  updateWordBBox,
+  type BoxHandle,
+  type ImageRegion,
+  type InstalledLanguagesResponse,
+  type OCRBaseline,
+  type OCRData,
+  type OCRWord,
+  type SelectionGranularity
+} from "@/lib/ocr";
+import { OCRCancelledError, ocrWorkerPool, type OCRJob } from "@/lib/ocr-worker-pool";
+import {
+  defaultPreprocessOptions,
+  preprocessImage,
+  type InvertMode,
+  type PreprocessOptions
+} from "@/lib/preprocess";
+import { exportFormats, exportOCRData, type ExportFormat } from "@/lib/export";
+import { buildSearchablePDF } from "@/lib/pdf";
+import {
+  buildFindPattern,
+  defaultFindOptions,
+  findMatches,
+  replaceMatches,
+  type FindMatch,
+  type FindOptions
+} from "@/lib/find-replace";
+import { matchFont, type FontMatch } from "@/lib/font-match";
+import { drawParagraph, getParagraphLayout } from "@/lib/text-layout";
+import { textureFills, type TextureFill } from "@/lib/inpaint";
+import type { EraseOptions } from "@/lib/background";
+import { backgroundEraser } from "@/lib/background-eraser";
+import { PIXEL_GRID_MIN_ZOOM, clampZoom, formatZoom, stepZoom, wheelZoom } from "@/lib/zoom";
+import { LayerCache, getEditLayers, getVisibleOCRData, moveLayer, revealHiddenEdits, patchLayerKey, setLayerHidden, textLayerKey, type RasterLayer } from "@/lib/layers";
+import { syncLibraryFonts, uploadFont, type FontLibraryResponse } from "@/lib/fonts";
+import { adoptSnapshot, canRedo, canUndo, emptyHistory, jumpTo, recordSnapshot, type EditHistory } from "@/lib/history";
+import {
+  alignTextX,
+  defaultTypography,
+  fillSpacedText,
+  fitFontSize,
+  fontFamilies,
+  fontFits,
+  fontWeights,
+  getWordTypography,
+  measureSpacedText,
+  toCanvasFont,
+  toWordTypography,
+  type FontFit,
+  type FontStyle,
+  type TextAlign,
+  type Typography
+} from "@/lib/typography";
+import {
+  applyLineSkew,
+  containsPoint,
+  getBaselineInBoxFrame,
+  getBoxCenter,
+  getBoxCorners,
+  getOuterBBox,
+  hasRotation,
+  mapFromUpright,
+  rotateCanvasUpright
+} from "@/lib/orientation";
+
+// Upscale factor for region scans; small UI text recognizes far better at 3x
+const REGION_SCAN_SCALE = 3;
+const REGION_SCAN_MAX_SIZE = 4096;
+// On-screen size of the resize handles drawn on the selected box
+const BOX_HANDLE_SIZE = 8;
+// Background around a tilted word copied along for the erase routines to sample
+const ROTATED_ERASE_MARGIN = 24;
+// Below this Tesseract's orientation guess is unreliable and the page is left as is
+const MIN_ORIENTATION_CONFIDENCE = 2;
+// Longest side of the minimap shown while zoomed in
+const MINIMAP_SIZE = 160;
+
+// Keys typed into these belong to them, not to the editor's shortcuts
+const isTextEntry = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName));
+};
+
+// Where the canvas's image pixels are on screen: the client position of pixel (0, 0) and
+// the display size of one pixel. The border is left out, so positions stay exact whether
+// an image pixel is a fraction of a screen pixel or dozens of them.
+const getCanvasFrame = (canvas: HTMLCanvasElement) => {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    left: rect.left + canvas.clientLeft,
+    top: rect.top + canvas.clientTop,
+    scale: (rect.width - canvas.clientLeft * 2) / (canvas.width || 1)
+  };
+};
 
-// Extend global Window interface for Tesseract
-declare global {
-  interface Window {
-    Tesseract: any;
-  }
-}
-
-interface OCRWord {
-  id: string;
-  text: string;
-  confidence: number;
-  bbox: {
-    x0: number;
-    y0: number;
-    x1: number;
-    y1: number;
-  };
-  isSelected?: boolean;
-  isEdited?: boolean;
-  originalText?: string;
-  customColor?: string; // Store individual color per text object
-  hasBackgroundBox?: boolean; // Whether this text has a background box
-  backgroundBoxPaddingTop?: number; // Background box top padding for this text
-  backgroundBoxPaddingBottom?: number; // Background box bottom padding for this text
-  backgroundBoxPaddingLeft?: number; // Background box left padding for this text
-  backgroundBoxPaddingRight?: number; // Background box right padding for this text
-  backgroundBoxColor?: string; // Background box color for this text
-}
-
-interface OCRData {
-  words: OCRWord[];
-}
-
-interface ReplacementHistoryItem {
-  id: string;
-  oldText: string;
-  newText: string;
-  timestamp: Date;
-}
+// In-progress mouse drag on the canvas, in image pixel coordinates
+type CanvasDrag =
+  | { mode: 'scan' | 'draw'; startX: number; startY: number }
+  | { mode: 'resize'; startX: number; startY: number; wordId: string; handle: BoxHandle; bbox: OCRWord['bbox'] };
 
 export default function Home() {
   const [originalImage, setOriginalImage] = useState<HTMLImageElement | null>(null);
+  const [imageName, setImageName] = useState("screenshot.png");
   const [ocrData, setOcrData] = useState<OCRData | null>(null);
-  const [isProcessingOCR, setIsProcessingOCR] = useState(false);
+  // Full-image OCR preprocesses and detects the orientation before its job reaches the pool
+  const [isPreparingOCR, setIsPreparingOCR] = useState(false);
   const [ocrProgress, setOcrProgress] = useState(0);
   const [ocrProgressText, setOcrProgressText] = useState("");
   const [showBoundingBoxes, setShowBoundingBoxes] = useState(false);
+  // Display pixels per image pixel; null fits the image to the view
+  const [zoom, setZoom] = useState<number | null>(null);
+  const [fitScale, setFitScale] = useState(1);
+  const [showPixelGrid, setShowPixelGrid] = useState(true);
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
   const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
   const [newText, setNewText] = useState("");
-  const [replacementHistory, setReplacementHistory] = useState<ReplacementHistoryItem[]>([]);
+  const [editHistory, setEditHistory] = useState<EditHistory>(emptyHistory);
   const [isDragOver, setIsDragOver] = useState(false);
-  const [selectedFont, setSelectedFont] = useState("Arial");
+  const [selectedFont, setSelectedFont] = useState(defaultTypography.fontFamily);
+  const [fontWeight, setFontWeight] = useState(defaultTypography.fontWeight);
+  const [fontStyle, setFontStyle] = useState<FontStyle>(defaultTypography.fontStyle);
+  const [fontFit, setFontFit] = useState<FontFit>(defaultTypography.fontFit);
+  const [fontSizeOverride, setFontSizeOverride] = useState<number | null>(defaultTypography.fontSize);
+  const [letterSpacing, setLetterSpacing] = useState(defaultTypography.letterSpacing);
+  const [textAlign, setTextAlign] = useState<TextAlign>(defaultTypography.textAlign);
   const [useSmartErase, setUseSmartErase] = useState(true);
   const [usePerfectMatcher, setUsePerfectMatcher] = useState(true);
-  const [fontSizeMultiplier, setFontSizeMultiplier] = useState(1.2);
+  const [textureFill, setTextureFill] = useState<TextureFill>('inpaint');
+  const [useGlyphMask, setUseGlyphMask] = useState(true);
+  const [glyphMaskDilation, setGlyphMaskDilation] = useState(1);
+  const [fontSizeMultiplier, setFontSizeMultiplier] = useState(defaultTypography.sizeCalibration);
   const [isEyedropperActive, setIsEyedropperActive] = useState(false);
   const [selectedColor, setSelectedColor] = useState("#000000");
   const [showColorPreview, setShowColorPreview] = useState(false);
@@ -88,9 +219,96 @@ export default function Home() {
   const [backgroundBoxPaddingLeft, setBackgroundBoxPaddingLeft] = useState(2);
   const [backgroundBoxPaddingRight, setBackgroundBoxPaddingRight] = useState(2);
   const [backgroundBoxColor, setBackgroundBoxColor] = useState("#FFFFFF");
+  const [ocrLanguages, setOcrLanguages] = useState<string[]>(["eng"]);
+  const [lastOcrSettings, setLastOcrSettings] = useState<string | null>(null);
+  const [selectionGranularity, setSelectionGranularity] = useState<SelectionGranularity>('word');
+  const [isRegionScanActive, setIsRegionScanActive] = useState(false);
+  const [isDrawBoxActive, setIsDrawBoxActive] = useState(false);
+  const [dragSelection, setDragSelection] = useState<ImageRegion | null>(null);
+  const [pendingNewBox, setPendingNewBox] = useState<ImageRegion | null>(null);
+  const [newBoxText, setNewBoxText] = useState("");
+  const [splitIndex, setSplitIndex] = useState<number | null>(null);
+  const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(defaultPreprocessOptions);
+  const [preprocessPreview, setPreprocessPreview] = useState<string | null>(null);
+  const [ocrJobs, setOcrJobs] = useState<OCRJob[]>([]);
+  // Busy while any recognition is queued or running, so a region scan finishing first
+  // doesn't clear the state of a full-image run and vice versa
+  const isProcessingOCR = isPreparingOCR || ocrJobs.length > 0;
+  const [useOrientationDetection, setUseOrientationDetection] = useState(true);
+  const [useLineSkew, setUseLineSkew] = useState(true);
+  const [findQuery, setFindQuery] = useState("");
+  const [findReplacement, setFindReplacement] = useState("");
+  const [findOptions, setFindOptions] = useState<FindOptions>(defaultFindOptions);
+  const [fontMatches, setFontMatches] = useState<{ targetId: string; matches: FontMatch[] } | null>(null);
+  const [libraryFamilies, setLibraryFamilies] = useState<string[]>([]);
+  const [isUploadingFont, setIsUploadingFont] = useState(false);
+  // Rendered layers of the current image; bumped whenever a patch finishes rendering
+  const layerCacheRef = useRef(new LayerCache(null));
+  const [layerVersion, setLayerVersion] = useState(0);
+  const [erasingWordIds, setErasingWordIds] = useState<string[]>([]);
+  // Exports would leave out edits whose background is still being rebuilt
+  const isRenderingEdits = erasingWordIds.length > 0;
+
+  // How edited words are erased; applies to every edit
+  const eraseOptions = useMemo((): EraseOptions => ({
+    method: usePerfectMatcher ? 'matcher' : useSmartErase ? 'average' : 'white',
+    textureFill,
+    glyphMaskDilation: useGlyphMask ? glyphMaskDilation : null
+  }), [usePerfectMatcher, useSmartErase, textureFill, useGlyphMask, glyphMaskDilation]);
+
+  // Typography of the next replacement; each edited word keeps its own copy
+  const typography: Typography = {
+    fontFamily: selectedFont,
+    fontWeight,
+    fontStyle,
+    fontFit,
+    fontSize: fontSizeOverride,
+    sizeCalibration: fontSizeMultiplier,
+    letterSpacing,
+    textAlign
+  };
+
+  const { data: installedLanguages } = useQuery<InstalledLanguagesResponse>({
+    queryKey: ["/api/ocr/languages"],
+  });
+  // osd.traineddata sits next to the language packs but only powers orientation detection
+  const osdAvailable = !!installedLanguages?.languages.includes('osd');
+  const recognitionLanguages = installedLanguages?.languages.filter(code => code !== 'osd') ?? [];
+
+  const { data: fontLibrary } = useQuery<FontLibraryResponse>({
+    queryKey: ["/api/fonts"],
+  });
+  // Everything the font picker and font matching can use
+  const availableFamilies = [...fontFamilies, ...libraryFamilies.filter(family => !fontFamilies.includes(family))];
+
+  // Words or lines matching the Find panel, highlighted on the canvas as a preview. Hidden
+  // edits are searched as the original text they show.
+  const findResult = useMemo((): { matches: FindMatch[]; pattern: RegExp | null; error: string | null } => {
+    if (!ocrData || !findQuery) return { matches: [], pattern: null, error: null };
+    try {
+      const pattern = buildFindPattern(findQuery, findOptions);
+      return { matches: findMatches(getVisibleOCRData(ocrData), pattern, findOptions.scope), pattern, error: null };
+    } catch (error) {
+      return { matches: [], pattern: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [ocrData, findQuery, findOptions]);
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  // Image point to keep under the cursor across a zoom change, in client coordinates
+  const zoomAnchor = useRef<{ imageX: number; imageY: number; clientX: number; clientY: number } | null>(null);
+  const panStart = useRef<{ clientX: number; clientY: number; scrollLeft: number; scrollTop: number } | null>(null);
+  const pinchStart = useRef<{ distance: number; zoom: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const canvasDrag = useRef<CanvasDrag | null>(null);
+  // A drag ends with a click event, which must not change the selection
+  const suppressNextClick = useRef(false);
+  // Set while the controls pick up an edited word's style on selection, which is not an edit
+  const loadingEditedStyle = useRef(false);
+  // Bumped by every full OCR run and upload; a run whose number is no longer current drops its result
+  const ocrRun = useRef(0);
   const { toast } = useToast();
 
   const setupCanvas = useCallback((img: HTMLImageElement) => {
@@ -126,156 +344,123 @@ export default function Home() {
     const maxDisplayWidth = Math.max(300, availableWidth * 0.95);
     const maxDisplayHeight = Math.max(200, availableHeight * 0.95);
     
-    if (naturalWidth > maxDisplayWidth || naturalHeight > maxDisplayHeight) {
-      const ratio = Math.min(maxDisplayWidth / naturalWidth, maxDisplayHeight / naturalHeight);
-      canvas.style.width = `${naturalWidth * ratio}px`;
-      canvas.style.height = `${naturalHeight * ratio}px`;
-    } else {
-      canvas.style.width = `${naturalWidth}px`;
-      canvas.style.height = `${naturalHeight}px`;
-    }
+    // The zoom that fits the image; it is never enlarged to fit
+    setFitScale(Math.min(1, maxDisplayWidth / naturalWidth, maxDisplayHeight / naturalHeight));
   }, []);
 
-  const redrawCanvas = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !originalImage) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    // Draw at full resolution (canvas dimensions match original image)
-    ctx.drawImage(originalImage, 0, 0);
-
-    // Redraw any edited text
-    if (ocrData) {
-      ocrData.words.forEach(word => {
-        if (word.isEdited && word.text !== word.originalText) {
-          const { x0, y0, x1, y1 } = word.bbox;
-          
-          // Apply background reconstruction first
-          if (usePerfectMatcher) {
-            perfectBackgroundMatcher(ctx, x0, y0, x1, y1);
-          } else if (useSmartErase) {
-            // Simple background fill for redraw
-            ctx.fillStyle = 'white';
-            ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
-          }
-          
-          // Redraw the replacement text with its stored color, perfect font size, and perfect positioning
-          const boxWidth = x1 - x0;
-          const boxHeight = y1 - y0;
-          const fontSize = calculatePerfectFontSize(ctx, word.text, boxWidth, boxHeight, selectedFont);
-          const perfectPosition = calculatePerfectTextPosition(ctx, word.text, fontSize, selectedFont, x0, y0, y1);
-          
-          // Optionally draw background box if it was enabled for this text
-          if (word.hasBackgroundBox && word.backgroundBoxPaddingTop !== undefined && word.backgroundBoxColor) {
-            const expandedX0 = x0 - (word.backgroundBoxPaddingLeft || 0);
-            const expandedY0 = y0 - (word.backgroundBoxPaddingTop || 0);
-            const expandedX1 = x1 + (word.backgroundBoxPaddingRight || 0);
-            const expandedY1 = y1 + (word.backgroundBoxPaddingBottom || 0);
-            
-            ctx.fillStyle = word.backgroundBoxColor;
-            ctx.fillRect(expandedX0, expandedY0, expandedX1 - expandedX0, expandedY1 - expandedY0);
-          }
-
-          // Use the word's stored custom color, or fall back to black
-          const textColor = word.customColor || '#000000';
-          ctx.fillStyle = textColor;
-          ctx.font = `bold ${fontSize}px ${selectedFont}, sans-serif`;
-          ctx.textBaseline = 'alphabetic'; // Use natural baseline for precise positioning
-          ctx.textAlign = 'left';
-          ctx.fillText(word.text, perfectPosition.x, perfectPosition.y);
-        }
-      });
-    }
+  const viewScale = zoom ?? fitScale;
 
-    if (showBoundingBoxes && ocrData) {
-      drawBoundingBoxes();
+  const reportOcrProgress = useCallback((m: { status: string; progress: number }) => {
+    if (m.status === 'recognizing text') {
+      const progress = Math.round(m.progress * 100);
+      setOcrProgress(progress);
+      setOcrProgressText(`Recognizing text... ${progress}%`);
     }
-  }, [originalImage, showBoundingBoxes, ocrData, selectedColor, selectedFont, fontSizeMultiplier, usePerfectMatcher, useSmartErase, useBackgroundBox, backgroundBoxPaddingTop, backgroundBoxPaddingBottom, backgroundBoxPaddingLeft, backgroundBoxPaddingRight, backgroundBoxColor]);
-
-  const drawBoundingBoxes = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !ocrData || !originalImage) return;
-
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+  }, []);
 
-    ocrData.words.forEach(word => {
-      if (word.text.trim().length > 1) {
-        const { x0, y0, x1, y1 } = word.bbox;
-        
-        // Different colors for different states
-        if (word.isSelected) {
-          ctx.strokeStyle = '#00ff00'; // Green for selected
-          ctx.lineWidth = 3;
-          ctx.fillStyle = 'rgba(0, 255, 0, 0.2)';
-          ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
-        } else if (word.isEdited) {
-          ctx.strokeStyle = '#0066ff'; // Blue for edited
-          ctx.lineWidth = 2;
-        } else {
-          ctx.strokeStyle = '#ef4444'; // Red for detected
-          ctx.lineWidth = 2;
-        }
-        
-        ctx.strokeRect(x0, y0, x1 - x0, y1 - y0);
-      }
-    });
-  }, [ocrData, originalImage]);
+  // Clockwise rotation that turns the page upright; 0 when detection is off, unsure or fails
+  const detectPageRotation = async (canvas: HTMLCanvasElement): Promise<number> => {
+    if (!useOrientationDetection || !osdAvailable) return 0;
 
-  const performOCR = useCallback(async (img: HTMLImageElement) => {
-    if (!window.Tesseract) {
-      toast({
-        title: "OCR Library Not Available",
-        description: "Tesseract.js library failed to load. Please refresh the page.",
-        variant: "destructive",
-      });
-      return;
+    setOcrProgressText("Detecting page orientation...");
+    try {
+      const { orientation_degrees, orientation_confidence } = await ocrWorkerPool.detectOrientation(canvas);
+      if (!orientation_degrees || (orientation_confidence ?? 0) < MIN_ORIENTATION_CONFIDENCE) return 0;
+      return orientation_degrees;
+    } catch (error) {
+      console.warn('Orientation detection failed:', error);
+      return 0;
     }
+  };
 
-    setIsProcessingOCR(true);
+  const performOCR = useCallback(async (img: HTMLImageElement) => {
+    const run = ++ocrRun.current;
+    setIsPreparingOCR(true);
     setOcrProgress(0);
     setOcrProgressText("Initializing OCR engine...");
 
+    // Tesseract combines several language packs with "+", e.g. "eng+deu"
+    const language = ocrLanguages.join('+');
+
     try {
-      const { data } = await window.Tesseract.recognize(img, 'eng', {
-        logger: (m: any) => {
-          if (m.status === 'recognizing text') {
-            const progress = Math.round(m.progress * 100);
-            setOcrProgress(progress);
-            setOcrProgressText(`Recognizing text... ${progress}%`);
-          }
-        }
+      const processed = preprocessImage(img, preprocessOptions);
+      // Sideways and upside-down pages are recognized upright, then mapped back
+      const rotation = await detectPageRotation(processed.canvas);
+      if (run !== ocrRun.current) return;
+      const job = ocrWorkerPool.recognize(rotateCanvasUpright(processed.canvas, rotation), language, {
+        label: "Full image",
+        onProgress: reportOcrProgress
       });
+      setIsPreparingOCR(false);
+      const data = await job.promise;
+      if (run !== ocrRun.current) return;
+
+      // Assign unique IDs to detected words, lines, paragraphs and blocks, then map
+      // boxes from the (possibly rotated and upscaled) processed image back to original pixels
+      const upright = useLineSkew ? applyLineSkew(buildOCRData(data)) : buildOCRData(data);
+      const recognized = mapOCRDataToImage(
+        mapFromUpright(upright, rotation, processed.canvas.width, processed.canvas.height),
+        { x: 0, y: 0, width: img.naturalWidth, height: img.naturalHeight },
+        processed.scale
+      );
 
-      // Assign unique IDs to detected words
-      const wordsWithIds = data.words.map((word: any, index: number) => ({
-        ...word,
-        id: `text_${Date.now()}_${index}`,
-        isSelected: false,
-        isEdited: false,
-        originalText: word.text
-      }));
-
-      setOcrData({ words: wordsWithIds });
-      setIsProcessingOCR(false);
+      setOcrData(recognized);
+      setLastOcrSettings(JSON.stringify({ language, preprocessOptions, useOrientationDetection, useLineSkew }));
       
       toast({
         title: "OCR Complete",
-        description: `Detected ${wordsWithIds.filter((w: OCRWord) => w.text.trim().length > 1).length} words`,
+        description: `Detected ${recognized.words.filter(w => w.text.trim().length > 1).length} words in ${recognized.lines.length} lines`
+          + (rotation ? ` (page rotated ${rotation}°)` : ''),
       });
     } catch (error) {
+      if (run !== ocrRun.current) return;
+      setIsPreparingOCR(false);
+      if (error instanceof OCRCancelledError) {
+        toast({
+          title: "OCR Cancelled",
+          description: "Text recognition was stopped.",
+        });
+        return;
+      }
       console.error('OCR Error:', error);
-      setIsProcessingOCR(false);
       toast({
         title: "OCR Failed",
         description: "Failed to process the image. Please try again.",
         variant: "destructive",
       });
     }
-  }, [toast]);
+  }, [ocrLanguages, preprocessOptions, useOrientationDetection, useLineSkew, osdAvailable, reportOcrProgress, toast]);
+
+  const updatePreprocessOption = <K extends keyof PreprocessOptions>(key: K, value: PreprocessOptions[K]) => {
+    setPreprocessOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const showPreprocessPreview = () => {
+    if (!originalImage) return;
+    const { canvas } = preprocessImage(originalImage, preprocessOptions);
+    setPreprocessPreview(canvas.toDataURL('image/png'));
+  };
+
+  const toggleOcrLanguage = (code: string) => {
+    setOcrLanguages(prev => {
+      if (prev.includes(code)) {
+        // Keep at least one language selected
+        return prev.length > 1 ? prev.filter(lang => lang !== code) : prev;
+      }
+      return [...prev, code];
+    });
+  };
+
+  const rerunOCR = () => {
+    if (!originalImage) return;
+
+    // A new recognition pass replaces every detected word, so previous edits are dropped
+    ocrWorkerPool.cancelAll();
+    setSelectedTextId(null);
+    setNewText("");
+    setOcrData(null);
+    performOCR(originalImage);
+  };
 
 
 
@@ -300,11 +485,21 @@ export default function Home() {
       return;
     }
 
+    // Stop recognition of the previous image so its results can't overwrite the new one
+    ocrRun.current++;
+    ocrWorkerPool.cancelAll();
+    setIsPreparingOCR(false);
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const img = new Image();
       img.onload = () => {
         setOriginalImage(img);
+        setImageName(file.name);
+        // Edits of the previous image can't be undone onto this one
+        setOcrData(null);
+        setEditHistory(emptyHistory);
+        setZoom(null);
         setupCanvas(img);
         performOCR(img);
       };
@@ -337,312 +532,6 @@ export default function Home() {
     }
   };
 
-  // Advanced background analysis and reconstruction
-  const analyzeBackground = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number) => {
-    const width = x1 - x0;
-    const height = y1 - y0;
-    const margin = Math.max(5, Math.min(width, height) * 0.3); // Slightly larger margin for better sampling
-    
-    // Sample ONLY the border around the text area, excluding the text itself
-    const samples = [];
-    const sampleSize = 2; // Smaller sample size for more precision
-    
-    // Top border (above the text)
-    for (let x = x0 - margin; x <= x1 + margin; x += sampleSize) {
-      for (let y = y0 - margin; y < y0 - 2; y += sampleSize) { // Stop 2px before text area
-        if (x >= 0 && y >= 0 && x < ctx.canvas.width && y < ctx.canvas.height) {
-          const pixel = ctx.getImageData(x, y, 1, 1).data;
-          samples.push({ x, y, r: pixel[0], g: pixel[1], b: pixel[2], a: pixel[3] });
-        }
-      }
-    }
-    
-    // Bottom border (below the text)
-    for (let x = x0 - margin; x <= x1 + margin; x += sampleSize) {
-      for (let y = y1 + 2; y <= y1 + margin; y += sampleSize) { // Start 2px after text area
-        if (x >= 0 && y >= 0 && x < ctx.canvas.width && y < ctx.canvas.height) {
-          const pixel = ctx.getImageData(x, y, 1, 1).data;
-          samples.push({ x, y, r: pixel[0], g: pixel[1], b: pixel[2], a: pixel[3] });
-        }
-      }
-    }
-    
-    // Left border (left of the text)
-    for (let x = x0 - margin; x < x0 - 2; x += sampleSize) { // Stop 2px before text area
-      for (let y = y0 - 2; y <= y1 + 2; y += sampleSize) {
-        if (x >= 0 && y >= 0 && x < ctx.canvas.width && y < ctx.canvas.height) {
-          const pixel = ctx.getImageData(x, y, 1, 1).data;
-          samples.push({ x, y, r: pixel[0], g: pixel[1], b: pixel[2], a: pixel[3] });
-        }
-      }
-    }
-    
-    // Right border (right of the text)
-    for (let x = x1 + 2; x <= x1 + margin; x += sampleSize) { // Start 2px after text area
-      for (let y = y0 - 2; y <= y1 + 2; y += sampleSize) {
-        if (x >= 0 && y >= 0 && x < ctx.canvas.width && y < ctx.canvas.height) {
-          const pixel = ctx.getImageData(x, y, 1, 1).data;
-          samples.push({ x, y, r: pixel[0], g: pixel[1], b: pixel[2], a: pixel[3] });
-        }
-      }
-    }
-    
-    console.log(`Background analysis: sampled ${samples.length} border pixels for area (${x0},${y0}) to (${x1},${y1})`);
-    return samples;
-  };
-
-  const detectBackgroundType = (samples: any[]) => {
-    if (samples.length === 0) return { type: 'solid', color: [255, 255, 255, 255] };
-    
-    // Calculate color variance
-    let rVariance = 0, gVariance = 0, bVariance = 0;
-    const avgR = samples.reduce((sum, s) => sum + s.r, 0) / samples.length;
-    const avgG = samples.reduce((sum, s) => sum + s.g, 0) / samples.length;
-    const avgB = samples.reduce((sum, s) => sum + s.b, 0) / samples.length;
-    
-    samples.forEach(s => {
-      rVariance += Math.pow(s.r - avgR, 2);
-      gVariance += Math.pow(s.g - avgG, 2);
-      bVariance += Math.pow(s.b - avgB, 2);
-    });
-    
-    const totalVariance = (rVariance + gVariance + bVariance) / (samples.length * 3);
-    
-    // Determine background type based on variance
-    if (totalVariance < 100) {
-      return { 
-        type: 'solid', 
-        color: [Math.round(avgR), Math.round(avgG), Math.round(avgB), 255]
-      };
-    } else if (totalVariance < 1000) {
-      return { type: 'gradient', samples };
-    } else {
-      return { type: 'textured', samples };
-    }
-  };
-
-  const reconstructSolidBackground = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number, color: number[]) => {
-    ctx.fillStyle = `rgba(${color[0]}, ${color[1]}, ${color[2]}, ${color[3] / 255})`;
-    ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
-  };
-
-  const reconstructGradientBackground = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number, samples: any[]) => {
-    // Create a smooth gradient based on surrounding samples
-    const imageData = ctx.createImageData(x1 - x0, y1 - y0);
-    const data = imageData.data;
-    
-    for (let y = 0; y < y1 - y0; y++) {
-      for (let x = 0; x < x1 - x0; x++) {
-        const globalX = x0 + x;
-        const globalY = y0 + y;
-        
-        // Weighted interpolation based on distance to sample points
-        let totalWeight = 0;
-        let weightedR = 0, weightedG = 0, weightedB = 0;
-        
-        samples.forEach(sample => {
-          const distance = Math.sqrt(Math.pow(globalX - sample.x, 2) + Math.pow(globalY - sample.y, 2));
-          const weight = 1 / (distance + 1); // Inverse distance weighting
-          
-          totalWeight += weight;
-          weightedR += sample.r * weight;
-          weightedG += sample.g * weight;
-          weightedB += sample.b * weight;
-        });
-        
-        const pixelIndex = (y * (x1 - x0) + x) * 4;
-        data[pixelIndex] = Math.round(weightedR / totalWeight);
-        data[pixelIndex + 1] = Math.round(weightedG / totalWeight);
-        data[pixelIndex + 2] = Math.round(weightedB / totalWeight);
-        data[pixelIndex + 3] = 255;
-      }
-    }
-    
-    ctx.putImageData(imageData, x0, y0);
-  };
-
-  const reconstructTexturedBackground = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number, samples: any[]) => {
-    // Advanced content-aware fill using patch-based synthesis
-    const width = x1 - x0;
-    const height = y1 - y0;
-    const patchSize = 9; // 9x9 patches for texture analysis
-    const halfPatch = Math.floor(patchSize / 2);
-    
-    // Create source region excluding the text area
-    const sourceRegions = [];
-    const margin = Math.max(20, Math.min(width, height) * 0.5);
-    
-    // Collect source patches from surrounding areas
-    for (let sy = y0 - margin; sy <= y1 + margin - patchSize; sy += 2) {
-      for (let sx = x0 - margin; sx <= x1 + margin - patchSize; sx += 2) {
-        if (sx >= 0 && sy >= 0 && sx + patchSize < ctx.canvas.width && sy + patchSize < ctx.canvas.height) {
-          // Skip if patch overlaps with text area
-          if (!(sx + patchSize > x0 && sx < x1 && sy + patchSize > y0 && sy < y1)) {
-            try {
-              const patchData = ctx.getImageData(sx, sy, patchSize, patchSize);
-              sourceRegions.push({ x: sx, y: sy, data: patchData });
-            } catch (e) {
-              // Skip invalid regions
-            }
-          }
-        }
-      }
-    }
-    
-    if (sourceRegions.length === 0) {
-      // Fallback to gradient method
-      reconstructGradientBackground(ctx, x0, y0, x1, y1, samples);
-      return;
-    }
-    
-    // Fill the text area using best-matching patches
-    const targetImageData = ctx.createImageData(width, height);
-    const targetData = targetImageData.data;
-    
-    // Process in overlapping blocks for seamless results
-    const blockSize = 16;
-    const overlap = 4;
-    
-    for (let by = 0; by < height; by += blockSize - overlap) {
-      for (let bx = 0; bx < width; bx += blockSize - overlap) {
-        const blockWidth = Math.min(blockSize, width - bx);
-        const blockHeight = Math.min(blockSize, height - by);
-        
-        // Find best matching source patch
-        let bestMatch = sourceRegions[0];
-        let bestScore = Infinity;
-        
-        sourceRegions.forEach(source => {
-          if (source.data.width >= blockWidth && source.data.height >= blockHeight) {
-            const score = calculatePatchSimilarity(
-              ctx, x0 + bx, y0 + by, blockWidth, blockHeight,
-              source, halfPatch
-            );
-            
-            if (score < bestScore) {
-              bestScore = score;
-              bestMatch = source;
-            }
-          }
-        });
-        
-        // Copy best match to target with blending
-        copyPatchWithBlending(
-          bestMatch.data, targetData, 
-          0, 0, bx, by, 
-          blockWidth, blockHeight, width
-        );
-      }
-    }
-    
-    ctx.putImageData(targetImageData, x0, y0);
-  };
-
-  const calculatePatchSimilarity = (ctx: CanvasRenderingContext2D, tx: number, ty: number, tw: number, th: number, source: any, margin: number) => {
-    // Compare edge pixels to find best matching texture
-    let similarity = 0;
-    let sampleCount = 0;
-    
-    // Sample boundary pixels for comparison
-    const boundaryPixels = [];
-    
-    // Top boundary
-    for (let x = Math.max(0, tx - margin); x < Math.min(ctx.canvas.width, tx + tw + margin); x++) {
-      if (ty > 0) {
-        try {
-          const pixel = ctx.getImageData(x, ty - 1, 1, 1).data;
-          boundaryPixels.push(pixel);
-        } catch (e) {}
-      }
-    }
-    
-    // Compare with source patch edges
-    const sourceData = source.data.data;
-    for (let i = 0; i < Math.min(boundaryPixels.length, sourceData.length / 4); i++) {
-      const bp = boundaryPixels[i];
-      const sp = [sourceData[i * 4], sourceData[i * 4 + 1], sourceData[i * 4 + 2]];
-      
-      similarity += Math.sqrt(
-        Math.pow(bp[0] - sp[0], 2) + 
-        Math.pow(bp[1] - sp[1], 2) + 
-        Math.pow(bp[2] - sp[2], 2)
-      );
-      sampleCount++;
-    }
-    
-    return sampleCount > 0 ? similarity / sampleCount : Infinity;
-  };
-
-  const copyPatchWithBlending = (sourceData: ImageData, targetData: Uint8ClampedArray, sx: number, sy: number, tx: number, ty: number, width: number, height: number, targetWidth: number) => {
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const sourceIndex = ((sy + y) * sourceData.width + (sx + x)) * 4;
-        const targetIndex = ((ty + y) * targetWidth + (tx + x)) * 4;
-        
-        if (sourceIndex >= 0 && sourceIndex < sourceData.data.length - 3 && 
-            targetIndex >= 0 && targetIndex < targetData.length - 3) {
-          // Simple copy with alpha blending
-          const alpha = sourceData.data[sourceIndex + 3] / 255;
-          targetData[targetIndex] = sourceData.data[sourceIndex] * alpha + targetData[targetIndex] * (1 - alpha);
-          targetData[targetIndex + 1] = sourceData.data[sourceIndex + 1] * alpha + targetData[targetIndex + 1] * (1 - alpha);
-          targetData[targetIndex + 2] = sourceData.data[sourceIndex + 2] * alpha + targetData[targetIndex + 2] * (1 - alpha);
-          targetData[targetIndex + 3] = 255;
-        }
-      }
-    }
-  };
-
-  const perfectBackgroundMatcher = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number) => {
-    try {
-      // Step 1: Analyze surrounding background
-      const samples = analyzeBackground(ctx, x0, y0, x1, y1);
-      const backgroundType = detectBackgroundType(samples);
-      
-      // Step 2: Apply appropriate reconstruction method
-      switch (backgroundType.type) {
-        case 'solid':
-          if (backgroundType.color) {
-            reconstructSolidBackground(ctx, x0, y0, x1, y1, backgroundType.color);
-          }
-          break;
-        case 'gradient':
-          if (backgroundType.samples) {
-            reconstructGradientBackground(ctx, x0, y0, x1, y1, backgroundType.samples);
-          }
-          break;
-        case 'textured':
-          if (backgroundType.samples) {
-            reconstructTexturedBackground(ctx, x0, y0, x1, y1, backgroundType.samples);
-          }
-          break;
-        default:
-          // Fallback to simple fill
-          ctx.fillStyle = 'white';
-          ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
-      }
-    } catch (error) {
-      console.warn('Background matching failed, using fallback:', error);
-      // Safe fallback
-      ctx.fillStyle = 'white';
-      ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
-    }
-  };
-
-  // Helper function to get average background color for legacy smart erase
-  const getAverageBackgroundColor = (imageData: ImageData): string => {
-    let r = 0, g = 0, b = 0;
-    const data = imageData.data;
-    
-    for (let i = 0; i < data.length; i += 4) {
-      r += data[i];
-      g += data[i + 1];
-      b += data[i + 2];
-    }
-    
-    const pixelCount = data.length / 4;
-    return `rgb(${Math.round(r / pixelCount)}, ${Math.round(g / pixelCount)}, ${Math.round(b / pixelCount)})`;
-  };
-
   // Helper function to automatically detect text color from the center of bounding box
   const getTextColor = (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): string => {
     const centerX = Math.floor((x0 + x1) / 2);
@@ -660,42 +549,20 @@ export default function Home() {
     }
   };
 
-  // Helper function to calculate perfect font size using measureText for pixel-perfect matching
-  const calculatePerfectFontSize = (ctx: CanvasRenderingContext2D, text: string, targetWidth: number, targetHeight: number, fontFamily: string): number => {
-    // Start with height-based estimation
-    let fontSize = Math.floor(targetHeight * 0.9); // Good starting point based on bounding box height
-    let attempts = 0;
-    const maxAttempts = 50; // Prevent infinite loops
-    
-    // Fine-tune using measureText to match width
-    while (attempts < maxAttempts) {
-      ctx.font = `bold ${fontSize}px ${fontFamily}, sans-serif`;
-      const metrics = ctx.measureText(text);
-      const currentWidth = metrics.width;
-      
-      // Check if we're within acceptable range (±2px tolerance)
-      if (Math.abs(currentWidth - targetWidth) <= 2) {
-        break;
-      }
-      
-      // Adjust font size based on width difference
-      if (currentWidth > targetWidth) {
-        fontSize = Math.max(8, fontSize - 1); // Don't go below 8px
-      } else {
-        fontSize = Math.min(72, fontSize + 1); // Don't go above 72px
-      }
-      
-      attempts++;
-    }
-    
-    console.log(`Perfect font size calculated: ${fontSize}px for text "${text}" (target: ${targetWidth}x${targetHeight})`);
-    return fontSize;
-  };
-
   // Helper function to calculate perfect text position using actual bounding box metrics
-  const calculatePerfectTextPosition = (ctx: CanvasRenderingContext2D, text: string, fontSize: number, fontFamily: string, bboxX0: number, bboxY0: number, bboxY1: number): { x: number, y: number } => {
-    ctx.font = `bold ${fontSize}px ${fontFamily}, sans-serif`;
+  const calculatePerfectTextPosition = (ctx: CanvasRenderingContext2D, text: string, fontSize: number, textTypography: Typography, bboxX0: number, bboxX1: number, bboxY1: number, baseline?: OCRBaseline): { x: number, y: number } => {
+    ctx.font = toCanvasFont(textTypography, fontSize);
     const metrics = ctx.measureText(text);
+    const x = alignTextX(textTypography.textAlign, bboxX0, bboxX1, measureSpacedText(ctx, text, textTypography.letterSpacing));
+    
+    // Prefer the baseline Tesseract detected for the line, so every word and whole-line
+    // replacement on it sits on the same baseline regardless of descenders
+    if (baseline) {
+      const span = baseline.x1 - baseline.x0;
+      const t = span !== 0 ? (x - baseline.x0) / span : 0;
+      const y = baseline.y0 + (baseline.y1 - baseline.y0) * t;
+      return { x, y };
+    }
     
     // Use actual bounding box metrics if available (modern browsers)
     if (metrics.actualBoundingBoxAscent !== undefined && metrics.actualBoundingBoxDescent !== undefined) {
@@ -703,14 +570,12 @@ export default function Home() {
       const descent = metrics.actualBoundingBoxDescent;
       
       // Position text so it fits exactly within the OCR bounding box
-      const x = bboxX0;
       const y = bboxY1 - descent; // Align bottom of text with bottom of bbox
       
       console.log(`Perfect positioning: ascent=${ascent}, descent=${descent}, y=${y}`);
       return { x, y };
     } else {
       // Fallback for older browsers - use approximation
-      const x = bboxX0;
       const y = bboxY1 - (fontSize * 0.2); // Approximate descent
       
       console.log(`Fallback positioning: y=${y}`);
@@ -718,6 +583,306 @@ export default function Home() {
     }
   };
 
+  // Rebuild the background behind a box with the selected method. The box and its
+  // surroundings go to the background worker as one buffer and come back as a patch.
+  const erasePatch = async (ctx: CanvasRenderingContext2D, x0: number, y0: number, x1: number, y1: number): Promise<RasterLayer | null> => {
+    try {
+      return await backgroundEraser.erase(ctx, x0, y0, x1, y1, eraseOptions);
+    } catch (error) {
+      console.warn('Background matching failed, using fallback:', error);
+      const x = Math.floor(x0);
+      const y = Math.floor(y0);
+      const fallback = document.createElement('canvas');
+      fallback.width = Math.max(1, Math.ceil(x1) - x);
+      fallback.height = Math.max(1, Math.ceil(y1) - y);
+      const fallbackCtx = fallback.getContext('2d');
+      if (fallbackCtx) {
+        fallbackCtx.fillStyle = 'white';
+        fallbackCtx.fillRect(0, 0, fallback.width, fallback.height);
+      }
+      return { x, y, bitmap: fallback };
+    }
+  };
+
+  // Canvas covering the upright bounding box of a word, grown by `padding`, with the
+  // context translated so it can be drawn on in image coordinates
+  const createLayerCanvas = (box: OCRWord, padding: number) => {
+    const corners = getBoxCorners(box);
+    const x = Math.floor(Math.min(...corners.map(p => p.x)) - padding);
+    const y = Math.floor(Math.min(...corners.map(p => p.y)) - padding);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.ceil(Math.max(...corners.map(p => p.x)) + padding) - x);
+    canvas.height = Math.max(1, Math.ceil(Math.max(...corners.map(p => p.y)) + padding) - y);
+    const ctx = canvas.getContext('2d');
+    ctx?.translate(-x, -y);
+    return { x, y, canvas, ctx };
+  };
+
+  // Rebuild the background behind a word from the original image. A tilted word is erased
+  // in its own frame: the surroundings are copied upright onto a scratch canvas, erased
+  // there, and the patch is turned back onto a layer clipped to the rotated box.
+  const renderPatchLayer = async (base: CanvasRenderingContext2D, box: OCRWord): Promise<RasterLayer | null> => {
+    const { x0, y0, x1, y1 } = box.bbox;
+    if (!hasRotation(box)) return erasePatch(base, x0, y0, x1, y1);
+
+    const width = Math.ceil(x1 - x0);
+    const height = Math.ceil(y1 - y0);
+    const margin = ROTATED_ERASE_MARGIN;
+    const center = getBoxCenter(box);
+    const angle = box.angle || 0;
+
+    const scratch = document.createElement('canvas');
+    scratch.width = width + margin * 2;
+    scratch.height = height + margin * 2;
+    const scratchCtx = scratch.getContext('2d', { willReadFrequently: true });
+    if (!scratchCtx) return null;
+
+    scratchCtx.translate(scratch.width / 2, scratch.height / 2);
+    scratchCtx.rotate(-angle);
+    scratchCtx.drawImage(base.canvas, -center.x, -center.y);
+    scratchCtx.setTransform(1, 0, 0, 1, 0, 0);
+    const patch = await erasePatch(scratchCtx, margin, margin, margin + width, margin + height);
+    if (!patch) return null;
+
+    const layer = createLayerCanvas(box, 1);
+    if (!layer.ctx) return null;
+    layer.ctx.beginPath();
+    getBoxCorners(box).forEach((p, i) => (i === 0 ? layer.ctx?.moveTo(p.x, p.y) : layer.ctx?.lineTo(p.x, p.y)));
+    layer.ctx.closePath();
+    layer.ctx.clip();
+    layer.ctx.translate(center.x, center.y);
+    layer.ctx.rotate(angle);
+    layer.ctx.drawImage(patch.bitmap, patch.x - scratch.width / 2, patch.y - scratch.height / 2);
+    if (patch.bitmap instanceof ImageBitmap) patch.bitmap.close();
+    return { x: layer.x, y: layer.y, bitmap: layer.canvas };
+  };
+
+  // Draw in a word's own frame. For tilted words the context is rotated around the box center
+  // and the callback gets the box and baseline relative to that center.
+  const drawInBoxFrame = (
+    ctx: CanvasRenderingContext2D,
+    box: OCRWord,
+    draw: (x0: number, y0: number, x1: number, y1: number, baseline?: OCRBaseline) => void
+  ) => {
+    const { x0, y0, x1, y1 } = box.bbox;
+    if (!hasRotation(box)) {
+      draw(x0, y0, x1, y1, box.baseline);
+      return;
+    }
+
+    const center = getBoxCenter(box);
+    const halfW = (x1 - x0) / 2;
+    const halfH = (y1 - y0) / 2;
+    const frameBaseline = box.baseline && getBaselineInBoxFrame(box, box.baseline);
+
+    ctx.save();
+    ctx.translate(center.x, center.y);
+    ctx.rotate(box.angle || 0);
+    draw(-halfW, -halfH, halfW, halfH, frameBaseline && {
+      x0: frameBaseline.x0 - center.x,
+      y0: frameBaseline.y0 - center.y,
+      x1: frameBaseline.x1 - center.x,
+      y1: frameBaseline.y1 - center.y
+    });
+    ctx.restore();
+  };
+
+  // Draw an edited word's replacement text with its stored color and typography
+  const drawEditedWord = (ctx: CanvasRenderingContext2D, word: OCRWord) => {
+    drawInBoxFrame(ctx, word, (x0, y0, x1, y1, baseline) => {
+      const wordTypography = getWordTypography(word);
+
+      // Optionally draw background box if it was enabled for this text
+      if (word.hasBackgroundBox && word.backgroundBoxPaddingTop !== undefined && word.backgroundBoxColor) {
+        const expandedX0 = x0 - (word.backgroundBoxPaddingLeft || 0);
+        const expandedY0 = y0 - (word.backgroundBoxPaddingTop || 0);
+        const expandedX1 = x1 + (word.backgroundBoxPaddingRight || 0);
+        const expandedY1 = y1 + (word.backgroundBoxPaddingBottom || 0);
+
+        ctx.fillStyle = word.backgroundBoxColor;
+        ctx.fillRect(expandedX0, expandedY0, expandedX1 - expandedX0, expandedY1 - expandedY0);
+      }
+
+      // Use the word's stored custom color, or fall back to black
+      ctx.fillStyle = word.customColor || '#000000';
+
+      if (word.paragraphLayout) {
+        drawParagraph(ctx, word.text, word.originalText ?? word.text, wordTypography, x0, y0, x1, word.paragraphLayout);
+        return;
+      }
+
+      const fontSize = fitFontSize(ctx, word.text, word.originalText ?? word.text, wordTypography, x1 - x0, y1 - y0);
+      const perfectPosition = calculatePerfectTextPosition(ctx, word.text, fontSize, wordTypography, x0, x1, y1, baseline);
+      ctx.font = toCanvasFont(wordTypography, fontSize);
+      ctx.textBaseline = 'alphabetic'; // Use natural baseline for precise positioning
+      ctx.textAlign = 'left';
+      fillSpacedText(ctx, word.text, perfectPosition.x, perfectPosition.y, wordTypography.letterSpacing);
+    });
+  };
+
+  // Render an edited word's replacement text onto a layer of its own, with room around the
+  // box for its background box and for glyphs that overhang it
+  const renderTextLayer = (word: OCRWord): RasterLayer => {
+    const boxPadding = word.hasBackgroundBox
+      ? Math.max(
+          word.backgroundBoxPaddingTop || 0,
+          word.backgroundBoxPaddingRight || 0,
+          word.backgroundBoxPaddingBottom || 0,
+          word.backgroundBoxPaddingLeft || 0
+        )
+      : 0;
+    const layer = createLayerCanvas(word, Math.max(16, word.bbox.y1 - word.bbox.y0) + boxPadding);
+    if (layer.ctx) drawEditedWord(layer.ctx, word);
+    return { x: layer.x, y: layer.y, bitmap: layer.canvas };
+  };
+
+  // The layer cache of the current image, started afresh when the image changes
+  const getLayerCache = useCallback(() => {
+    if (layerCacheRef.current.image !== originalImage) {
+      layerCacheRef.current.dispose();
+      layerCacheRef.current = new LayerCache(originalImage);
+    }
+    return layerCacheRef.current;
+  }, [originalImage]);
+
+  // Composite the visible edits over the original image, bottom layer first. Edits whose
+  // patch is still being rebuilt are left out until it arrives. Text layers are drawn from
+  // the word alone, so renderTextLayer reads no state.
+  const drawEditLayers = useCallback((ctx: CanvasRenderingContext2D) => {
+    const cache = getLayerCache();
+    const usedTexts = new Set<string>();
+    getEditLayers(ocrData).forEach(word => {
+      if (word.layerHidden) return;
+      const patch = cache.getPatch(patchLayerKey(word, eraseOptions));
+      if (patch === undefined) return;
+      if (patch) ctx.drawImage(patch.bitmap, patch.x, patch.y);
+
+      const key = textLayerKey(word, libraryFamilies);
+      let text = cache.texts.get(key);
+      if (!text) {
+        text = renderTextLayer(word);
+        cache.texts.set(key, text);
+      }
+      usedTexts.add(key);
+      ctx.drawImage(text.bitmap, text.x, text.y);
+    });
+    cache.pruneTexts(usedTexts);
+  }, [getLayerCache, ocrData, eraseOptions, libraryFamilies]);
+
+  // The image as exported: the original with the visible edits, without the boxes, find
+  // previews and other overlays drawn on the on-screen canvas
+  const renderEditedImage = (): HTMLCanvasElement | null => {
+    if (!originalImage) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = originalImage.naturalWidth;
+    canvas.height = originalImage.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(originalImage, 0, 0);
+    drawEditLayers(ctx);
+    return canvas;
+  };
+
+  const drawBoundingBoxes = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !ocrData || !originalImage) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    // Outlines and handles keep a constant size on screen at every zoom
+    const screenPixel = canvas.width / (canvas.clientWidth || canvas.width);
+
+    // Outline a box, following the text's angle for tilted ones
+    const traceBox = (box: { bbox: OCRWord['bbox']; angle?: number }) => {
+      ctx.beginPath();
+      getBoxCorners(box).forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+    };
+
+    // In line or paragraph mode, outline the groups instead of individual words
+    if (selectionGranularity !== 'word') {
+      getGroups(ocrData, selectionGranularity).forEach(group => {
+        traceBox(group);
+        
+        if (group.id === selectedTextId) {
+          ctx.strokeStyle = '#00ff00'; // Green for selected
+          ctx.lineWidth = 3 * screenPixel;
+          ctx.fillStyle = 'rgba(0, 255, 0, 0.2)';
+          ctx.fill();
+        } else {
+          ctx.strokeStyle = '#a855f7'; // Purple for detected groups
+          ctx.lineWidth = 2 * screenPixel;
+        }
+        
+        ctx.stroke();
+      });
+      return;
+    }
+
+    ocrData.words.forEach(word => {
+      if (word.text.trim().length > 1) {
+        traceBox(word);
+        
+        // Different colors for different states
+        if (word.isSelected) {
+          ctx.strokeStyle = '#00ff00'; // Green for selected
+          ctx.lineWidth = 3 * screenPixel;
+          ctx.fillStyle = 'rgba(0, 255, 0, 0.2)';
+          ctx.fill();
+        } else if (word.isEdited) {
+          ctx.strokeStyle = '#0066ff'; // Blue for edited
+          ctx.lineWidth = 2 * screenPixel;
+        } else {
+          ctx.strokeStyle = '#ef4444'; // Red for detected
+          ctx.lineWidth = 2 * screenPixel;
+        }
+        
+        ctx.stroke();
+
+        // Resize handles on the selected box
+        if (word.isSelected && !hasRotation(word)) {
+          const size = BOX_HANDLE_SIZE * screenPixel;
+          ctx.fillStyle = '#ffffff';
+          ctx.strokeStyle = '#00aa00';
+          ctx.lineWidth = size / 6;
+          getBoxHandles(word.bbox).forEach(({ x, y }) => {
+            ctx.fillRect(x - size / 2, y - size / 2, size, size);
+            ctx.strokeRect(x - size / 2, y - size / 2, size, size);
+          });
+        }
+      }
+    });
+  }, [ocrData, originalImage, selectionGranularity, selectedTextId]);
+
+  const redrawCanvas = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !originalImage) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(originalImage, 0, 0);
+    drawEditLayers(ctx);
+
+    if (showBoundingBoxes && ocrData) {
+      drawBoundingBoxes();
+    }
+
+    // Preview of what Replace All will change, outlined at a constant width on screen
+    const screenPixel = canvas.width / (canvas.clientWidth || canvas.width);
+    findResult.matches.forEach(match => {
+      ctx.beginPath();
+      getBoxCorners(match).forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.closePath();
+      ctx.fillStyle = 'rgba(249, 115, 22, 0.25)';
+      ctx.fill();
+      ctx.strokeStyle = '#f97316'; // Orange for find matches
+      ctx.lineWidth = 2 * screenPixel;
+      ctx.stroke();
+    });
+  }, [originalImage, drawEditLayers, showBoundingBoxes, ocrData, drawBoundingBoxes, findResult]);
+
   // Helper function to convert RGB to HEX format
   const rgbToHex = (r: number, g: number, b: number): string => {
     return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase()}`;
@@ -735,15 +900,281 @@ export default function Home() {
     }
   };
 
-  // Eyedropper functionality
-  const toggleEyedropper = () => {
-    setIsEyedropperActive(!isEyedropperActive);
-    if (isEyedropperActive) {
-      setShowColorPreview(false);
+  // Convert a mouse position to image pixel coordinates (the canvas is CSS-scaled to the
+  // zoom, and scrolled when zoomed in); works at every zoom level
+  const getImageCoordinates = (e: React.MouseEvent<HTMLCanvasElement>, canvas: HTMLCanvasElement) => {
+    const frame = getCanvasFrame(canvas);
+    
+    return {
+      x: Math.floor((e.clientX - frame.left) / frame.scale),
+      y: Math.floor((e.clientY - frame.top) / frame.scale)
+    };
+  };
+
+  // Change the zoom, keeping the image point under (clientX, clientY) in place; the view
+  // center when no point is given
+  const zoomTo = (update: (scale: number) => number, clientX?: number, clientY?: number) => {
+    const canvas = canvasRef.current;
+    const container = canvasContainerRef.current;
+    if (!canvas || !container || !canvas.width) return;
+
+    const view = container.getBoundingClientRect();
+    const frame = getCanvasFrame(canvas);
+    const anchorX = clientX ?? view.left + view.width / 2;
+    const anchorY = clientY ?? view.top + view.height / 2;
+    zoomAnchor.current = {
+      imageX: (anchorX - frame.left) / frame.scale,
+      imageY: (anchorY - frame.top) / frame.scale,
+      clientX: anchorX,
+      clientY: anchorY
+    };
+    setZoom(prev => clampZoom(update(prev ?? fitScale)));
+  };
+
+  // The part of the image visible in the scrolled canvas area, in image pixels
+  const getVisibleImageRect = (canvas: HTMLCanvasElement, container: HTMLDivElement) => {
+    const view = container.getBoundingClientRect();
+    const frame = getCanvasFrame(canvas);
+    const x0 = Math.max(0, (view.left - frame.left) / frame.scale);
+    const y0 = Math.max(0, (view.top - frame.top) / frame.scale);
+    const x1 = Math.min(canvas.width, (view.right - frame.left) / frame.scale);
+    const y1 = Math.min(canvas.height, (view.bottom - frame.top) / frame.scale);
+    return { x: x0, y: y0, width: Math.max(0, x1 - x0), height: Math.max(0, y1 - y0) };
+  };
+
+  // Thumbnail of the canvas with the visible part outlined
+  const drawMinimap = () => {
+    const minimap = minimapRef.current;
+    const canvas = canvasRef.current;
+    const container = canvasContainerRef.current;
+    if (!minimap || !canvas || !container || !canvas.width) return;
+
+    const scale = Math.min(MINIMAP_SIZE / canvas.width, MINIMAP_SIZE / canvas.height);
+    minimap.width = Math.max(1, Math.round(canvas.width * scale));
+    minimap.height = Math.max(1, Math.round(canvas.height * scale));
+    const ctx = minimap.getContext('2d');
+    if (!ctx) return;
+
+    ctx.drawImage(canvas, 0, 0, minimap.width, minimap.height);
+    const visible = getVisibleImageRect(canvas, container);
+    ctx.fillStyle = 'rgba(37, 99, 235, 0.15)';
+    ctx.fillRect(visible.x * scale, visible.y * scale, visible.width * scale, visible.height * scale);
+    ctx.strokeStyle = '#2563eb';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(visible.x * scale, visible.y * scale, visible.width * scale, visible.height * scale);
+  };
+
+  // Click or drag on the minimap to center the view there
+  const handleMinimapPointer = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (e.type === 'mousemove' && e.buttons !== 1) return;
+    const canvas = canvasRef.current;
+    const container = canvasContainerRef.current;
+    if (!canvas || !container) return;
+
+    const minimapRect = e.currentTarget.getBoundingClientRect();
+    const imageX = (e.clientX - minimapRect.left) / minimapRect.width * canvas.width;
+    const imageY = (e.clientY - minimapRect.top) / minimapRect.height * canvas.height;
+    const view = container.getBoundingClientRect();
+    const frame = getCanvasFrame(canvas);
+    container.scrollLeft += frame.left + imageX * frame.scale - (view.left + view.width / 2);
+    container.scrollTop += frame.top + imageY * frame.scale - (view.top + view.height / 2);
+  };
+
+  // Space-drag panning. The handlers run in the capture phase so the canvas's own
+  // mouse handlers (selection, drawing, eyedropper) never see a pan.
+  const handlePanStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    const container = canvasContainerRef.current;
+    if (!isSpaceHeld || e.button !== 0 || !container) return;
+    e.preventDefault();
+    e.stopPropagation();
+    panStart.current = {
+      clientX: e.clientX,
+      clientY: e.clientY,
+      scrollLeft: container.scrollLeft,
+      scrollTop: container.scrollTop
+    };
+    setIsPanning(true);
+  };
+
+  const handlePanMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const container = canvasContainerRef.current;
+    const start = panStart.current;
+    if (!start || !container) return;
+    e.stopPropagation();
+    container.scrollLeft = start.scrollLeft - (e.clientX - start.clientX);
+    container.scrollTop = start.scrollTop - (e.clientY - start.clientY);
+  };
+
+  const handlePanClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (isSpaceHeld) e.stopPropagation();
+  };
+
+  // Eyedropper functionality
+  const toggleEyedropper = () => {
+    setIsEyedropperActive(!isEyedropperActive);
+    setIsRegionScanActive(false);
+    setIsDrawBoxActive(false);
+    if (isEyedropperActive) {
+      setShowColorPreview(false);
+    }
+  };
+
+  // Region scan: drag a rectangle to re-run OCR on an upscaled crop of the image
+  const toggleRegionScan = () => {
+    setIsRegionScanActive(!isRegionScanActive);
+    setIsEyedropperActive(false);
+    setIsDrawBoxActive(false);
+    setShowColorPreview(false);
+    canvasDrag.current = null;
+    setDragSelection(null);
+  };
+
+  // Draw box: drag a rectangle around text OCR missed and type what it says
+  const toggleDrawBox = () => {
+    setIsDrawBoxActive(!isDrawBoxActive);
+    setIsEyedropperActive(false);
+    setIsRegionScanActive(false);
+    setShowColorPreview(false);
+    canvasDrag.current = null;
+    setDragSelection(null);
+    if (!isDrawBoxActive) setShowBoundingBoxes(true);
+  };
+
+  const scanRegion = async (region: ImageRegion) => {
+    if (!originalImage) return;
+
+    const language = ocrLanguages.join('+');
+    const scale = Math.min(REGION_SCAN_SCALE, REGION_SCAN_MAX_SIZE / Math.max(region.width, region.height));
+    // Always crop from the untouched original so earlier replacements don't affect recognition
+    const crop = cropAndUpscale(originalImage, region, scale);
+
+    // The selected word may be superseded by the re-scan
+    setSelectedTextId(null);
+    setNewText("");
+    setOcrProgress(0);
+    setOcrProgressText("Scanning selected region...");
+
+    try {
+      // The crop is already upscaled, so only apply the pixel-level stages here
+      const processed = preprocessImage(crop, { ...preprocessOptions, upscale: 1 });
+      const job = ocrWorkerPool.recognize(processed.canvas, language, {
+        label: `Region ${Math.round(region.width)}×${Math.round(region.height)}`,
+        onProgress: reportOcrProgress
+      });
+      const page = await job.promise;
+      const recognized = useLineSkew ? applyLineSkew(buildOCRData(page)) : buildOCRData(page);
+      const regionData = mapOCRDataToImage(recognized, region, scale);
+
+      setOcrData(prev => prev ? mergeRegionOCRData(prev, region, regionData) : regionData);
+
+      toast({
+        title: "Region Scanned",
+        description: `Found ${regionData.words.filter(w => w.text.trim().length > 0).length} words in the selected region`,
+      });
+    } catch (error) {
+      if (error instanceof OCRCancelledError) return;
+      console.error('Region OCR Error:', error);
+      toast({
+        title: "Region Scan Failed",
+        description: "Failed to process the selected region. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Find the resize handle of the selected word under the pointer, if any
+  const findBoxHandle = (canvas: HTMLCanvasElement, x: number, y: number) => {
+    if (!ocrData || !showBoundingBoxes || selectionGranularity !== 'word') return null;
+    
+    // Resizing only works on upright boxes
+    const word = ocrData.words.find(w => w.id === selectedTextId);
+    if (!word || hasRotation(word)) return null;
+    
+    const tolerance = (BOX_HANDLE_SIZE / 2 + 2) * (canvas.width / (canvas.clientWidth || canvas.width));
+    const hit = getBoxHandles(word.bbox).find(h => Math.abs(h.x - x) <= tolerance && Math.abs(h.y - y) <= tolerance);
+    return hit ? { word, handle: hit.handle } : null;
+  };
+
+  const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!originalImage) return;
+    
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    
+    const { x, y } = getImageCoordinates(e, canvas);
+    
+    if (isRegionScanActive || isDrawBoxActive) {
+      canvasDrag.current = { mode: isRegionScanActive ? 'scan' : 'draw', startX: x, startY: y };
+      setDragSelection({ x, y, width: 0, height: 0 });
+      return;
+    }
+    
+    const hit = !isEyedropperActive && findBoxHandle(canvas, x, y);
+    if (hit) {
+      const { x0, y0, x1, y1 } = hit.word.bbox;
+      canvasDrag.current = { mode: 'resize', startX: x, startY: y, wordId: hit.word.id, handle: hit.handle, bbox: hit.word.bbox };
+      setDragSelection({ x: x0, y: y0, width: x1 - x0, height: y1 - y0 });
+    }
+  };
+
+  const handleCanvasMouseUp = () => {
+    const drag = canvasDrag.current;
+    const region = dragSelection;
+    if (!drag) return;
+    
+    canvasDrag.current = null;
+    setDragSelection(null);
+    suppressNextClick.current = true;
+    
+    if (drag.mode === 'resize') {
+      if (region && (region.x !== drag.bbox.x0 || region.y !== drag.bbox.y0 ||
+          region.x + region.width !== drag.bbox.x1 || region.y + region.height !== drag.bbox.y1)) {
+        const bbox = { x0: region.x, y0: region.y, x1: region.x + region.width, y1: region.y + region.height };
+        setOcrData(prev => prev ? updateWordBBox(prev, drag.wordId, bbox) : prev);
+      }
+      return;
+    }
+    
+    // Ignore plain clicks and accidental tiny drags
+    if (!region || region.width < 4 || region.height < 4) return;
+    
+    if (drag.mode === 'scan') {
+      setIsRegionScanActive(false);
+      scanRegion(region);
+    } else {
+      setIsDrawBoxActive(false);
+      setNewBoxText("");
+      setPendingNewBox(region);
     }
   };
 
   const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = canvasDrag.current;
+    if (drag) {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      
+      const current = getImageCoordinates(e, canvas);
+      const clampedX = Math.min(canvas.width, Math.max(0, current.x));
+      const clampedY = Math.min(canvas.height, Math.max(0, current.y));
+      
+      if (drag.mode === 'resize') {
+        const { x0, y0, x1, y1 } = resizeBBox(drag.bbox, drag.handle, clampedX, clampedY);
+        setDragSelection({ x: x0, y: y0, width: x1 - x0, height: y1 - y0 });
+        return;
+      }
+      
+      const x = Math.max(0, Math.min(drag.startX, current.x));
+      const y = Math.max(0, Math.min(drag.startY, current.y));
+      setDragSelection({
+        x,
+        y,
+        width: Math.min(canvas.width, Math.max(drag.startX, current.x)) - x,
+        height: Math.min(canvas.height, Math.max(drag.startY, current.y)) - y
+      });
+      return;
+    }
+    
     if (!isEyedropperActive || !originalImage) return;
     
     const canvas = canvasRef.current;
@@ -752,12 +1183,7 @@ export default function Home() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    const x = Math.floor((e.clientX - rect.left) * scaleX);
-    const y = Math.floor((e.clientY - rect.top) * scaleY);
+    const { x, y } = getImageCoordinates(e, canvas);
     
     // Ensure coordinates are within bounds
     if (x >= 0 && y >= 0 && x < canvas.width && y < canvas.height) {
@@ -771,28 +1197,40 @@ export default function Home() {
     }
   };
 
+  // Resolve a selected ID to a word; lines and paragraphs come back as one merged word
+  const getSelectionTarget = (id: string | null): OCRWord | null => {
+    if (!ocrData || !id) return null;
+
+    const word = ocrData.words.find(w => w.id === id);
+    if (word) return word;
+
+    const group = findGroup(ocrData, id);
+    return group ? groupToWord(ocrData, group) : null;
+  };
+
   // Function to find which text was clicked
   const findTextByCoordinates = (x: number, y: number): OCRWord | null => {
     if (!ocrData) return null;
     
-    return ocrData.words.find(word => {
-      const { x0, y0, x1, y1 } = word.bbox;
-      return x >= x0 && x <= x1 && y >= y0 && y <= y1;
-    }) || null;
+    if (selectionGranularity !== 'word') {
+      const group = getGroups(ocrData, selectionGranularity).find(g => containsPoint(g, x, y));
+      return group ? groupToWord(ocrData, group) : null;
+    }
+    
+    return ocrData.words.find(word => containsPoint(word, x, y)) || null;
   };
 
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!originalImage) return;
+    if (suppressNextClick.current) {
+      suppressNextClick.current = false;
+      return;
+    }
+    if (!originalImage || isRegionScanActive || isDrawBoxActive) return;
     
     const canvas = canvasRef.current;
     if (!canvas) return;
     
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    
-    const x = Math.floor((e.clientX - rect.left) * scaleX);
-    const y = Math.floor((e.clientY - rect.top) * scaleY);
+    const { x, y } = getImageCoordinates(e, canvas);
     
     // Ensure coordinates are within bounds
     if (x >= 0 && y >= 0 && x < canvas.width && y < canvas.height) {
@@ -832,6 +1270,7 @@ export default function Home() {
           
           setSelectedTextId(clickedText.id);
           setNewText(clickedText.text); // Pre-populate with current text
+          loadEditedStyle(clickedText);
           
           toast({
             title: "Text Selected",
@@ -860,6 +1299,90 @@ export default function Home() {
     if (isEyedropperActive) {
       setShowColorPreview(false);
     }
+    if (canvasDrag.current) {
+      canvasDrag.current = null;
+      setDragSelection(null);
+    }
+  };
+
+  // Fields stored on a replaced word so redrawCanvas can draw it again with the same style
+  const getEditedFields = (text: string, textColor: string): Partial<OCRWord> => ({
+    text,
+    isEdited: true,
+    isSelected: false,
+    customColor: textColor, // Store the specific color used for this text
+    hasBackgroundBox: useBackgroundBox, // Store whether background box was used
+    backgroundBoxPaddingTop: useBackgroundBox ? backgroundBoxPaddingTop : undefined,
+    backgroundBoxPaddingBottom: useBackgroundBox ? backgroundBoxPaddingBottom : undefined,
+    backgroundBoxPaddingLeft: useBackgroundBox ? backgroundBoxPaddingLeft : undefined,
+    backgroundBoxPaddingRight: useBackgroundBox ? backgroundBoxPaddingRight : undefined,
+    backgroundBoxColor: useBackgroundBox ? backgroundBoxColor : undefined,
+    ...toWordTypography(typography)
+  });
+
+  const updateFindOption = <K extends keyof FindOptions>(key: K, value: FindOptions[K]) => {
+    setFindOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  // Replace every find match in one go; the canvas is redrawn from ocrData afterwards
+  const replaceAllMatches = () => {
+    const { matches, pattern } = findResult;
+    if (!ocrData || !originalImage || !pattern || matches.length === 0) return;
+
+    // Sample text colors from the untouched image so earlier edits and overlays don't interfere
+    const sampleCanvas = document.createElement('canvas');
+    sampleCanvas.width = originalImage.naturalWidth;
+    sampleCanvas.height = originalImage.naturalHeight;
+    const sampleCtx = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    if (!sampleCtx) return;
+    sampleCtx.drawImage(originalImage, 0, 0);
+
+    const visible = getVisibleOCRData(ocrData);
+    let updated = ocrData;
+    let replaced = 0;
+    matches.forEach(match => {
+      const text = replaceMatches(match.text, pattern, findReplacement, findOptions);
+      if (text === match.text || !text.trim()) return;
+
+      // A match in a hidden edit is in the original text it shows; that edit gives way
+      const matchedIds = findOptions.scope === 'line' ? findGroup(visible, match.id)?.wordIds ?? [] : [match.id];
+      updated = revealHiddenEdits(updated, matchedIds);
+
+      const { x0, y0, x1, y1 } = getOuterBBox(match);
+      const textColor = selectedColor !== "#000000" ? selectedColor : getTextColor(sampleCtx, x0, y0, x1, y1);
+      const editedFields = getEditedFields(text, textColor);
+
+      if (findOptions.scope === 'line') {
+        const line = findGroup(updated, match.id);
+        if (!line) return;
+        const lineWord = groupToWord(updated, line);
+        const mergedIds = (lineWord.mergedWords || []).map(word => word.id);
+        updated = mergeWords(updated, mergedIds, { ...lineWord, ...editedFields });
+      } else {
+        updated = {
+          ...updated,
+          words: updated.words.map(word => (word.id === match.id ? { ...word, ...editedFields } : word))
+        };
+      }
+      replaced++;
+    });
+
+    if (replaced === 0) {
+      toast({
+        title: "Nothing Replaced",
+        description: "The replacement leaves every match unchanged.",
+      });
+      return;
+    }
+
+    setOcrData({ ...updated, words: updated.words.map(word => ({ ...word, isSelected: false })) });
+    setSelectedTextId(null);
+    setNewText("");
+
+    toast({
+      title: "Replaced All",
+      description: `Replaced ${replaced} ${findOptions.scope === 'line' ? 'line' : 'word'}${replaced === 1 ? '' : 's'}`,
+    });
   };
 
   const handleTextReplacement = () => {
@@ -891,8 +1414,8 @@ export default function Home() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Find the selected word
-    const selectedWord = ocrData.words.find(word => word.id === selectedTextId);
+    // Find the selected word (or the line/paragraph as a single merged word)
+    const selectedWord = getSelectionTarget(selectedTextId);
     console.log("Found selected word:", selectedWord);
     
     if (!selectedWord) {
@@ -922,61 +1445,7 @@ export default function Home() {
         console.log("Text area bounds:", { x0: canvasX0, y0: canvasY0, x1: canvasX1, y1: canvasY1 });
         console.log("Original text color sampled:", originalTextColor);
         
-        // Step 2: Apply background reconstruction (this will fill the text area with background)
-        if (usePerfectMatcher) {
-          console.log("Using Perfect Background Matcher");
-          perfectBackgroundMatcher(ctx, canvasX0, canvasY0, canvasX1, canvasY1);
-        } else if (useSmartErase) {
-          // Legacy smart erase method - sample background around text area, not from text area
-          console.log("Using Legacy Smart Erase");
-          try {
-            const margin = 10;
-            const backgroundSamples = [];
-            
-            // Sample background pixels around the text area (not from inside it)
-            for (let x = canvasX0 - margin; x <= canvasX1 + margin; x += 3) {
-              for (let y = canvasY0 - margin; y <= canvasY1 + margin; y += 3) {
-                // Skip pixels inside the text area
-                if (x < canvasX0 || x > canvasX1 || y < canvasY0 || y > canvasY1) {
-                  if (x >= 0 && y >= 0 && x < ctx.canvas.width && y < ctx.canvas.height) {
-                    const pixel = ctx.getImageData(x, y, 1, 1).data;
-                    backgroundSamples.push({ r: pixel[0], g: pixel[1], b: pixel[2] });
-                  }
-                }
-              }
-            }
-            
-            if (backgroundSamples.length > 0) {
-              const avgR = Math.round(backgroundSamples.reduce((sum, s) => sum + s.r, 0) / backgroundSamples.length);
-              const avgG = Math.round(backgroundSamples.reduce((sum, s) => sum + s.g, 0) / backgroundSamples.length);
-              const avgB = Math.round(backgroundSamples.reduce((sum, s) => sum + s.b, 0) / backgroundSamples.length);
-              const backgroundFillColor = `rgb(${avgR}, ${avgG}, ${avgB})`;
-              
-              console.log("Background fill color:", backgroundFillColor);
-              ctx.fillStyle = backgroundFillColor;
-              ctx.fillRect(canvasX0, canvasY0, canvasX1 - canvasX0, canvasY1 - canvasY0);
-            } else {
-              ctx.fillStyle = 'white';
-              ctx.fillRect(canvasX0, canvasY0, canvasX1 - canvasX0, canvasY1 - canvasY0);
-            }
-          } catch (error) {
-            console.warn("Smart erase failed:", error);
-            ctx.fillStyle = 'white';
-            ctx.fillRect(canvasX0, canvasY0, canvasX1 - canvasX0, canvasY1 - canvasY0);
-          }
-        } else {
-          // Simple white fill
-          console.log("Using simple white background fill");
-          ctx.fillStyle = 'white';
-          ctx.fillRect(canvasX0, canvasY0, canvasX1 - canvasX0, canvasY1 - canvasY0);
-        }
-
-        // Calculate perfect font size using both width and height for pixel-perfect matching
-        const boxWidth = canvasX1 - canvasX0;
-        const boxHeight = canvasY1 - canvasY0;
-        const fontSize = calculatePerfectFontSize(ctx, newText, boxWidth, boxHeight, selectedFont);
-        
-        // Step 3: Determine final text color (NEVER use background color for text)
+        // Step 2: Determine final text color (NEVER use background color for text)
         let finalTextColor;
         if (selectedColor !== "#000000") {
           // User has selected a custom color with eyedropper
@@ -988,89 +1457,39 @@ export default function Home() {
           console.log("Using auto-detected original text color:", finalTextColor);
         }
         
-        // Step 4: Optionally draw background box if enabled
-        if (useBackgroundBox) {
-          const expandedX0 = canvasX0 - backgroundBoxPaddingLeft;
-          const expandedY0 = canvasY0 - backgroundBoxPaddingTop;
-          const expandedX1 = canvasX1 + backgroundBoxPaddingRight;
-          const expandedY1 = canvasY1 + backgroundBoxPaddingBottom;
-          
-          console.log("Drawing background box:", {
-            color: backgroundBoxColor,
-            paddingTop: backgroundBoxPaddingTop,
-            paddingBottom: backgroundBoxPaddingBottom,
-            paddingLeft: backgroundBoxPaddingLeft,
-            paddingRight: backgroundBoxPaddingRight,
-            bounds: { x0: expandedX0, y0: expandedY0, x1: expandedX1, y1: expandedY1 }
-          });
-          
-          ctx.fillStyle = backgroundBoxColor;
-          ctx.fillRect(expandedX0, expandedY0, expandedX1 - expandedX0, expandedY1 - expandedY0);
-        }
+        // Text spanning several lines, or typed with line breaks, wraps into the selection
+        const lineLayout = getParagraphLayout(ocrData, selectedWord);
+        const paragraphLayout = lineLayout && (lineLayout.lineCount > 1 || newText.includes('\n')) ? lineLayout : undefined;
 
-        // Step 5: Calculate perfect text position using actual bounding box metrics
-        const perfectPosition = calculatePerfectTextPosition(ctx, newText, fontSize, selectedFont, canvasX0, canvasY0, canvasY1);
+        // Step 3: Mark the word as edited and store its styling; the background is rebuilt
+        // and the new text drawn when the edits are rendered
+        const editedFields = { ...getEditedFields(newText, finalTextColor), paragraphLayout };
         
-        // Step 6: Set text properties with EXPLICIT text color and perfect positioning
-        ctx.fillStyle = finalTextColor; // This should NEVER be white if original text was black
-        ctx.font = `bold ${fontSize}px ${selectedFont}, sans-serif`;
-        ctx.textBaseline = 'alphabetic'; // Use natural baseline for precise positioning
-        ctx.textAlign = 'left';
-        
-        console.log("Final text color applied:", finalTextColor);
-        console.log("Font size calculated:", fontSize, "from box dimensions:", boxWidth + "x" + boxHeight);
-        console.log("Perfect positioning calculated:", perfectPosition);
-        
-        // Optional: Draw debug border around original text area (remove in production)
-        // ctx.strokeStyle = '#ff0000';
-        // ctx.lineWidth = 1;
-        // ctx.strokeRect(canvasX0, canvasY0, canvasX1 - canvasX0, canvasY1 - canvasY0);
-        
-        // Draw new text with pixel-perfect positioning
-        console.log("Drawing replacement text:", newText, "at perfect position:", perfectPosition.x, perfectPosition.y);
-        console.log("Font settings:", ctx.font, "Fill style:", ctx.fillStyle);
-        ctx.fillText(newText, perfectPosition.x, perfectPosition.y);
-
-        // Update the word in OCR data to mark as edited and store its styling
         setOcrData(prev => {
           if (!prev) return prev;
-          return {
+          const deselected = {
             ...prev,
             words: prev.words.map(word => 
               word.id === selectedTextId 
-                ? { 
-                    ...word, 
-                    text: newText, 
-                    isEdited: true, 
-                    isSelected: false,
-                    customColor: finalTextColor, // Store the specific color used for this text
-                    hasBackgroundBox: useBackgroundBox, // Store whether background box was used
-                    backgroundBoxPaddingTop: useBackgroundBox ? backgroundBoxPaddingTop : undefined,
-                    backgroundBoxPaddingBottom: useBackgroundBox ? backgroundBoxPaddingBottom : undefined,
-                    backgroundBoxPaddingLeft: useBackgroundBox ? backgroundBoxPaddingLeft : undefined,
-                    backgroundBoxPaddingRight: useBackgroundBox ? backgroundBoxPaddingRight : undefined,
-                    backgroundBoxColor: useBackgroundBox ? backgroundBoxColor : undefined
-                  }
+                ? { ...word, ...editedFields }
                 : { ...word, isSelected: false }
             )
           };
+          
+          // A whole line or paragraph becomes one edited word drawn with a shared font size and baseline
+          if (selectedWord.mergedWords) {
+            const mergedIds = selectedWord.mergedWords.map(word => word.id);
+            return mergeWords(deselected, mergedIds, { ...selectedWord, ...editedFields });
+          }
+          return deselected;
         });
 
         replacementMade = true;
         
-        // Force canvas redraw to show the changes
-        console.log("Text replacement completed, forcing redraw...");
+        console.log("Text replacement completed, rendering edits...");
     }
 
     if (replacementMade) {
-      const newHistoryItem: ReplacementHistoryItem = {
-        id: Date.now().toString(),
-        oldText: selectedWord.originalText || selectedWord.text,
-        newText,
-        timestamp: new Date(),
-      };
-      
-      setReplacementHistory(prev => [newHistoryItem, ...prev.slice(0, 4)]);
       setSelectedTextId(null);
       setNewText("");
       
@@ -1091,7 +1510,7 @@ export default function Home() {
   };
 
   const downloadImage = () => {
-    const canvas = canvasRef.current;
+    const canvas = renderEditedImage();
     if (!canvas) {
       toast({
         title: "No Image",
@@ -1115,15 +1534,87 @@ export default function Home() {
     });
   };
 
+  // Same image as downloadImage, with the current (replaced) text as an invisible, searchable layer
+  const downloadSearchablePDF = async () => {
+    const canvas = renderEditedImage();
+    if (!canvas || !ocrData) {
+      toast({
+        title: "No OCR Data",
+        description: "Run text recognition before creating a searchable PDF.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const pdf = await buildSearchablePDF(canvas, getVisibleOCRData(ocrData).words);
+      const url = URL.createObjectURL(pdf);
+
+      const link = document.createElement('a');
+      link.download = `${imageName.replace(/\.[^.]+$/, '') || 'screenshot'}.pdf`;
+      link.href = url;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Download Complete",
+        description: "Searchable PDF downloaded successfully.",
+      });
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      toast({
+        title: "PDF Export Failed",
+        description: "Could not create the PDF. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Save the recognized text with its geometry; visible edits are included since they live in ocrData
+  const exportRecognizedText = (format: ExportFormat) => {
+    if (!ocrData || !originalImage) {
+      toast({
+        title: "No OCR Data",
+        description: "Run text recognition before exporting.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { label, extension, mimeType } = exportFormats[format];
+    const content = exportOCRData(
+      { data: getVisibleOCRData(ocrData), imageName, width: originalImage.naturalWidth, height: originalImage.naturalHeight },
+      format
+    );
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+
+    const link = document.createElement('a');
+    link.download = `${imageName.replace(/\.[^.]+$/, '') || 'screenshot'}.${extension}`;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Export Complete",
+      description: `${label} downloaded successfully.`,
+    });
+  };
+
   const resetToOriginal = () => {
     if (originalImage) {
       // Reset OCR data to original state
       if (ocrData) {
         setOcrData(prev => {
           if (!prev) return prev;
+          // Split merged line/paragraph edits back into their original words first
+          const unmerged = unmergeWords(prev);
           return {
-            ...prev,
-            words: prev.words.map(word => ({
+            ...unmerged,
+            words: unmerged.words.map(word => ({
               ...word,
               text: word.originalText || word.text,
               isEdited: false,
@@ -1134,7 +1625,6 @@ export default function Home() {
       }
       
       redrawCanvas();
-      setReplacementHistory([]);
       setSelectedTextId(null);
       setNewText("");
       
@@ -1145,10 +1635,51 @@ export default function Home() {
     }
   };
 
-  const removeHistoryItem = (id: string) => {
-    setReplacementHistory(prev => prev.filter(item => item.id !== id));
+  // Restore a recorded state; redrawCanvas renders it from the original image
+  const restoreHistoryEntry = (index: number) => {
+    const entry = editHistory.entries[index];
+    if (!entry) return;
+
+    const { ocrData: data, style } = entry.snapshot;
+    setEditHistory(prev => jumpTo(prev, index));
+    setOcrData({ ...data, words: data.words.map(word => ({ ...word, isSelected: false })) });
+    setSelectedFont(style.selectedFont);
+    setFontWeight(style.fontWeight);
+    setFontStyle(style.fontStyle);
+    setFontFit(style.fontFit);
+    setFontSizeOverride(style.fontSizeOverride);
+    setLetterSpacing(style.letterSpacing);
+    setTextAlign(style.textAlign);
+    setSelectedColor(style.selectedColor);
+    setFontSizeMultiplier(style.fontSizeMultiplier);
+    setUseSmartErase(style.useSmartErase);
+    setUsePerfectMatcher(style.usePerfectMatcher);
+    setTextureFill(style.textureFill);
+    setUseGlyphMask(style.useGlyphMask);
+    setGlyphMaskDilation(style.glyphMaskDilation);
+    setUseBackgroundBox(style.useBackgroundBox);
+    setBackgroundBoxPaddingTop(style.backgroundBoxPaddingTop);
+    setBackgroundBoxPaddingBottom(style.backgroundBoxPaddingBottom);
+    setBackgroundBoxPaddingLeft(style.backgroundBoxPaddingLeft);
+    setBackgroundBoxPaddingRight(style.backgroundBoxPaddingRight);
+    setBackgroundBoxColor(style.backgroundBoxColor);
+    setSelectedTextId(null);
+    setNewText("");
+    setSplitIndex(null);
   };
 
+  const undo = () => {
+    if (canUndo(editHistory)) restoreHistoryEntry(editHistory.index - 1);
+  };
+
+  const redo = () => {
+    if (canRedo(editHistory)) restoreHistoryEntry(editHistory.index + 1);
+  };
+
+  // Latest undo/redo for the keyboard shortcuts, which are registered once
+  const historyActions = useRef({ undo, redo });
+  historyActions.current = { undo, redo };
+
   const selectDetectedWord = (wordObj: OCRWord) => {
     // Clear previous selections and select this word
     setOcrData(prev => {
@@ -1164,25 +1695,493 @@ export default function Home() {
     
     setSelectedTextId(wordObj.id);
     setNewText(wordObj.text);
+    loadEditedStyle(wordObj);
+  };
+
+  // Replaced words behind a selection: the word itself, or the edited words of a line or paragraph
+  const getEditedWords = (target: OCRWord | null): OCRWord[] => {
+    if (!target) return [];
+    if (target.isEdited) return [target];
+    return (target.mergedWords || []).filter(word => word.isEdited);
+  };
+
+  // Put the style an edited word was drawn with back into the controls so it can be tweaked
+  const loadEditedStyle = (target: OCRWord) => {
+    const [edited] = getEditedWords(target);
+    if (!edited) return;
+
+    const stored = getWordTypography(edited);
+    loadingEditedStyle.current = true;
+    setSelectedFont(stored.fontFamily);
+    setFontWeight(stored.fontWeight);
+    setFontStyle(stored.fontStyle);
+    setFontFit(stored.fontFit);
+    setFontSizeOverride(stored.fontSize);
+    setFontSizeMultiplier(stored.sizeCalibration);
+    setLetterSpacing(stored.letterSpacing);
+    setTextAlign(stored.textAlign);
+    if (edited.customColor) setSelectedColor(edited.customColor);
+    setUseBackgroundBox(!!edited.hasBackgroundBox);
+    if (edited.hasBackgroundBox) {
+      if (edited.backgroundBoxPaddingTop !== undefined) setBackgroundBoxPaddingTop(edited.backgroundBoxPaddingTop);
+      if (edited.backgroundBoxPaddingBottom !== undefined) setBackgroundBoxPaddingBottom(edited.backgroundBoxPaddingBottom);
+      if (edited.backgroundBoxPaddingLeft !== undefined) setBackgroundBoxPaddingLeft(edited.backgroundBoxPaddingLeft);
+      if (edited.backgroundBoxPaddingRight !== undefined) setBackgroundBoxPaddingRight(edited.backgroundBoxPaddingRight);
+      if (edited.backgroundBoxColor) setBackgroundBoxColor(edited.backgroundBoxColor);
+    }
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setIsUploadingFont(true);
+    const uploaded: string[] = [];
+    for (const file of files) {
+      try {
+        const font = await uploadFont(file);
+        uploaded.push(font.family);
+      } catch (error) {
+        console.error('Font upload failed:', error);
+        toast({
+          title: "Font Upload Failed",
+          description: `${file.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+          variant: "destructive",
+        });
+      }
+    }
+    setIsUploadingFont(false);
+
+    if (uploaded.length > 0) {
+      await queryClient.invalidateQueries({ queryKey: ["/api/fonts"] });
+      setSelectedFont(uploaded[uploaded.length - 1]);
+      toast({
+        title: "Font Added",
+        description: `Added ${Array.from(new Set(uploaded)).join(", ")} to the font library`,
+      });
+    }
+  };
+
+  const deleteLibraryFont = async (id: string) => {
+    try {
+      await apiRequest("DELETE", `/api/fonts/${id}`);
+      await queryClient.invalidateQueries({ queryKey: ["/api/fonts"] });
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: error instanceof Error ? error.message : "Could not remove the font.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const applyFontMatch = (match: FontMatch) => {
+    setSelectedFont(match.fontFamily);
+    setFontWeight(match.fontWeight);
+    setFontStyle(match.fontStyle);
+    setFontFit('fixed');
+    setFontSizeOverride(match.fontSize);
+  };
+
+  // Identify the selected text's font from its original pixels and pre-select the best match
+  const matchSelectedFont = () => {
+    const target = getSelectionTarget(selectedTextId);
+    if (!target || !originalImage) return;
+
+    // Edited words no longer show their recognized text, but the original pixels still do
+    const text = target.originalText ?? target.text;
+    const matches = matchFont(originalImage, target, text, availableFamilies).slice(0, 5);
+
+    if (matches.length === 0) {
+      toast({
+        title: "No Font Match",
+        description: "Could not find the text's glyphs in the selected area.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFontMatches({ targetId: target.id, matches });
+    applyFontMatch(matches[0]);
+    toast({
+      title: "Font Matched",
+      description: `Best match: ${matches[0].fontFamily} ${fontWeights.find(w => w.value === matches[0].fontWeight)?.label ?? matches[0].fontWeight}` +
+        `${matches[0].fontStyle === 'italic' ? ' Italic' : ''}, ${matches[0].fontSize}px`,
+    });
+  };
+
+  // Restore the original pixels under the selection; other edits stay as they are
+  const revertSelectedEdit = () => {
+    const edited = getEditedWords(getSelectionTarget(selectedTextId));
+    if (edited.length === 0) return;
+
+    setOcrData(prev => prev ? edited.reduce((data, word) => revertWord(data, word.id), prev) : prev);
+    setSelectedTextId(null);
+    setNewText("");
+
+    toast({
+      title: "Edit Reverted",
+      description: edited.length === 1
+        ? `Restored "${edited[0].originalText ?? edited[0].text}"`
+        : `Restored ${edited.length} edited texts`,
+    });
+  };
+
+  // Manual box corrections: they change the OCR result itself, so they are only
+  // offered on words that have not been replaced yet
+  const selectedBoxWord = selectionGranularity === 'word'
+    ? ocrData?.words.find(w => w.id === selectedTextId && !w.isEdited) ?? null
+    : null;
+
+  const editLayers = getEditLayers(ocrData);
+
+  // Lines, paragraphs and earlier multi-line edits take several lines of replacement text
+  const selectionTarget = getSelectionTarget(selectedTextId);
+  const isMultilineSelection = !!selectionTarget && (!!selectionTarget.mergedWords || !!selectionTarget.paragraphLayout);
+
+  const addDrawnBox = () => {
+    if (!pendingNewBox) return;
+    
+    const text = newBoxText.trim();
+    const word: OCRWord = {
+      id: `manual_${Date.now()}`,
+      text,
+      confidence: 100,
+      bbox: {
+        x0: pendingNewBox.x,
+        y0: pendingNewBox.y,
+        x1: pendingNewBox.x + pendingNewBox.width,
+        y1: pendingNewBox.y + pendingNewBox.height
+      },
+      isSelected: true,
+      isEdited: false,
+      originalText: text
+    };
+    
+    setOcrData(prev => {
+      const base = prev ?? { words: [], lines: [], paragraphs: [], blocks: [] };
+      return addWord({ ...base, words: base.words.map(w => ({ ...w, isSelected: false })) }, word);
+    });
+    setSelectionGranularity('word');
+    setSelectedTextId(word.id);
+    setNewText(text);
+    setPendingNewBox(null);
+    
+    toast({
+      title: "Box Added",
+      description: text ? `Added "${text}". Enter replacement text to edit it.` : "Added an empty box.",
+    });
+  };
+
+  const handleSplitWord = () => {
+    if (!selectedBoxWord || splitIndex === null) return;
+    
+    setOcrData(prev => prev ? splitWord(prev, selectedBoxWord.id, splitIndex) : prev);
+    setSelectedTextId(null);
+    setNewText("");
+    setSplitIndex(null);
+    
+    toast({
+      title: "Box Split",
+      description: `Split into "${selectedBoxWord.text.slice(0, splitIndex)}" and "${selectedBoxWord.text.slice(splitIndex)}"`,
+    });
+  };
+
+  const handleMergeWithNext = () => {
+    if (!selectedBoxWord || !ocrData) return;
+    
+    const next = getNextWordInLine(ocrData, selectedBoxWord.id);
+    if (!next || next.isEdited) {
+      toast({
+        title: "Cannot Merge",
+        description: "There is no unedited word after this one on the same line.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    setOcrData(prev => prev ? mergeWithNextWord(prev, selectedBoxWord.id) : prev);
+    setSelectedTextId(null);
+    setNewText("");
+    
+    toast({
+      title: "Boxes Merged",
+      description: `Merged "${selectedBoxWord.text}" and "${next.text}"`,
+    });
+  };
+
+  const handleRemoveWord = () => {
+    if (!selectedBoxWord) return;
+    
+    setOcrData(prev => prev ? removeWord(prev, selectedBoxWord.id) : prev);
+    setSelectedTextId(null);
+    setNewText("");
+  };
+
+  const changeSelectionGranularity = (granularity: SelectionGranularity) => {
+    setSelectionGranularity(granularity);
+    setSelectedTextId(null);
+    setNewText("");
+    setOcrData(prev => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        words: prev.words.map(word => ({
+          ...word,
+          isSelected: false
+        }))
+      };
+    });
   };
 
-  // Handle window resize to adjust canvas size
+  // Handle window resize to adjust canvas size
+  useEffect(() => {
+    const handleResize = () => {
+      if (originalImage) {
+        setupCanvas(originalImage);
+      }
+    };
+
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, [originalImage, setupCanvas]);
+
+  // After a zoom change, scroll so the anchored image point is back under the cursor.
+  // Runs before paint, so the view never jumps.
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    const container = canvasContainerRef.current;
+    const anchor = zoomAnchor.current;
+    zoomAnchor.current = null;
+    if (canvas && container && anchor) {
+      const frame = getCanvasFrame(canvas);
+      container.scrollLeft += frame.left + anchor.imageX * frame.scale - anchor.clientX;
+      container.scrollTop += frame.top + anchor.imageY * frame.scale - anchor.clientY;
+    }
+    drawMinimap();
+  }, [viewScale]);
+
+  // Mouse wheel and trackpad pinch (a wheel event with ctrlKey) zoom around the cursor;
+  // Shift+wheel still scrolls sideways. Two-finger pinch zooms on touch screens.
+  useEffect(() => {
+    const container = canvasContainerRef.current;
+    if (!container) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (e.shiftKey) return;
+      e.preventDefault();
+      zoomTo(scale => wheelZoom(scale, e), e.clientX, e.clientY);
+    };
+    const touchDistance = (touches: TouchList) =>
+      Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+    const handleTouchStart = (e: TouchEvent) => {
+      const canvas = canvasRef.current;
+      if (e.touches.length !== 2 || !canvas) return;
+      pinchStart.current = { distance: touchDistance(e.touches), zoom: getCanvasFrame(canvas).scale };
+    };
+    const handleTouchMove = (e: TouchEvent) => {
+      const start = pinchStart.current;
+      if (!start || e.touches.length !== 2) return;
+      e.preventDefault();
+      const midX = (e.touches[0].clientX + e.touches[1].clientX) / 2;
+      const midY = (e.touches[0].clientY + e.touches[1].clientY) / 2;
+      const distance = touchDistance(e.touches);
+      zoomTo(() => start.zoom * distance / start.distance, midX, midY);
+    };
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (e.touches.length < 2) pinchStart.current = null;
+    };
+
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    container.addEventListener('touchstart', handleTouchStart);
+    container.addEventListener('touchmove', handleTouchMove, { passive: false });
+    container.addEventListener('touchend', handleTouchEnd);
+    return () => {
+      container.removeEventListener('wheel', handleWheel);
+      container.removeEventListener('touchstart', handleTouchStart);
+      container.removeEventListener('touchmove', handleTouchMove);
+      container.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [originalImage, fitScale]);
+
+  // Holding Space turns dragging on the canvas into panning. Focused buttons and text
+  // fields keep their own Space.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTextEntry(e.target) || (e.target as HTMLElement | null)?.tagName === 'BUTTON') return;
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // A pan ends wherever the mouse is released
+  useEffect(() => {
+    if (!isPanning) return;
+    const handleMouseUp = () => {
+      panStart.current = null;
+      setIsPanning(false);
+    };
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => window.removeEventListener('mouseup', handleMouseUp);
+  }, [isPanning]);
+
+  // Rebuild the patches the visible edits are missing. Erasing runs in the background
+  // worker; until a patch arrives its word keeps the original pixels under a spinner.
+  // Patches only read the original image, so they are requested independently and an
+  // edit's patch is never redone because another edit changed.
+  useEffect(() => {
+    if (!originalImage) return;
+    const cache = getLayerCache();
+    const base = cache.getBase();
+    if (!base) return;
+
+    const shown = getEditLayers(ocrData).filter(word => !word.layerHidden);
+    const inUse = new Set(shown.map(word => patchLayerKey(word, eraseOptions)));
+    const missing = shown.filter(word => !cache.hasPatch(patchLayerKey(word, eraseOptions)));
+    setErasingWordIds(missing.map(word => word.id));
+    missing.forEach(word => {
+      const key = patchLayerKey(word, eraseOptions);
+      if (cache.pendingPatches.has(key)) return;
+      cache.pendingPatches.add(key);
+      renderPatchLayer(base, word).then(
+        layer => {
+          cache.setPatch(key, layer, inUse);
+          cache.pendingPatches.delete(key);
+          setLayerVersion(version => version + 1);
+        },
+        error => {
+          // Not cached, so the next redraw of the edits tries this patch again
+          console.error('Rendering patch failed:', error);
+          cache.pendingPatches.delete(key);
+          setErasingWordIds(ids => ids.filter(id => id !== word.id));
+        }
+      );
+    });
+  }, [originalImage, ocrData, layerVersion, usePerfectMatcher, useSmartErase, textureFill, useGlyphMask, glyphMaskDilation]);
+
+  // Patches land in the layer cache without a state change of their own, and outlines are
+  // sized to the canvas on screen, so finished patches and zooming redraw too
+  useEffect(() => {
+    redrawCanvas();
+    drawMinimap();
+  }, [redrawCanvas, layerVersion, viewScale]);
+
+  // Mirror the shared OCR worker pool's queue for the status panel
+  useEffect(() => ocrWorkerPool.subscribe(setOcrJobs), []);
+
+  // Load the shared font library; redrawing once it's in renders edits made with it
+  useEffect(() => {
+    if (!fontLibrary) return;
+    let cancelled = false;
+    syncLibraryFonts(fontLibrary.fonts).then(families => {
+      if (!cancelled) setLibraryFamilies(families);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [fontLibrary]);
+
+  // Every change to the recognized text or the drawing style becomes an undo step, except
+  // the style selecting an edited word loads into the controls
   useEffect(() => {
-    const handleResize = () => {
-      if (originalImage) {
-        setupCanvas(originalImage);
+    if (!ocrData) return;
+    const fromSelection = loadingEditedStyle.current;
+    loadingEditedStyle.current = false;
+    const snapshot = {
+      ocrData,
+      style: {
+        selectedFont,
+        fontWeight,
+        fontStyle,
+        fontFit,
+        fontSizeOverride,
+        letterSpacing,
+        textAlign,
+        selectedColor,
+        fontSizeMultiplier,
+        useSmartErase,
+        usePerfectMatcher,
+        textureFill,
+        useGlyphMask,
+        glyphMaskDilation,
+        useBackgroundBox,
+        backgroundBoxPaddingTop,
+        backgroundBoxPaddingBottom,
+        backgroundBoxPaddingLeft,
+        backgroundBoxPaddingRight,
+        backgroundBoxColor
       }
     };
-
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, [originalImage, setupCanvas]);
-
+    setEditHistory(prev => fromSelection ? adoptSnapshot(prev, snapshot) : recordSnapshot(prev, snapshot));
+  }, [
+    ocrData,
+    selectedFont,
+    fontWeight,
+    fontStyle,
+    fontFit,
+    fontSizeOverride,
+    letterSpacing,
+    textAlign,
+    selectedColor,
+    fontSizeMultiplier,
+    useSmartErase,
+    usePerfectMatcher,
+    textureFill,
+    useGlyphMask,
+    glyphMaskDilation,
+    useBackgroundBox,
+    backgroundBoxPaddingTop,
+    backgroundBoxPaddingBottom,
+    backgroundBoxPaddingLeft,
+    backgroundBoxPaddingRight,
+    backgroundBoxColor
+  ]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y), leaving text fields their own undo
   useEffect(() => {
-    redrawCanvas();
-  }, [redrawCanvas]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (isTextEntry(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        historyActions.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        historyActions.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
-  const validWords = ocrData?.words.filter(word => word.text.trim().length > 1) || [];
+  const selectableItems = ocrData
+    ? selectionGranularity === 'word'
+      ? ocrData.words
+      : getGroups(ocrData, selectionGranularity).map(group => groupToWord(ocrData, group))
+    : [];
+  const validWords = selectableItems.filter(word => word.text.trim().length > 1);
+  const granularityLabels: Record<SelectionGranularity, string> = {
+    word: 'Words',
+    line: 'Lines',
+    paragraph: 'Paragraphs'
+  };
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -1196,11 +2195,56 @@ export default function Home() {
             <h1 className="text-lg sm:text-xl font-semibold text-gray-900">ScreenText Editor</h1>
           </div>
           <div className="flex items-center space-x-2 sm:space-x-4">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  disabled={!ocrData}
+                  variant="outline"
+                  size="sm"
+                  data-testid="button-export"
+                >
+                  <FileText className="w-4 h-4 mr-1 sm:mr-2" />
+                  <span className="hidden sm:inline">Export Text</span>
+                  <ChevronDown className="w-4 h-4 ml-1" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Recognized text</DropdownMenuLabel>
+                {(['text', 'hocr', 'alto', 'json'] as const).map(format => (
+                  <DropdownMenuItem
+                    key={format}
+                    onClick={() => exportRecognizedText(format)}
+                    data-testid={`menu-export-${format}`}
+                  >
+                    {exportFormats[format].label}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => exportRecognizedText('json-schema')}
+                  data-testid="menu-export-json-schema"
+                >
+                  {exportFormats['json-schema'].label}
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button
+              onClick={downloadSearchablePDF}
+              disabled={!originalImage || !ocrData || isRenderingEdits}
+              variant="outline"
+              size="sm"
+              title={isRenderingEdits ? "Waiting for edits to finish rendering" : "Download as searchable PDF"}
+              data-testid="button-download-pdf"
+            >
+              <FileDown className="w-4 h-4 mr-1 sm:mr-2" />
+              <span className="hidden sm:inline">Searchable PDF</span>
+            </Button>
             <Button 
               onClick={downloadImage} 
-              disabled={!originalImage}
+              disabled={!originalImage || isRenderingEdits}
               className="bg-primary hover:bg-primary/90"
               size="sm"
+              title={isRenderingEdits ? "Waiting for edits to finish rendering" : undefined}
             >
               <Download className="w-4 h-4 mr-1 sm:mr-2" />
               <span className="hidden sm:inline">Download</span>
@@ -1237,6 +2281,147 @@ export default function Home() {
               accept="image/*"
               onChange={handleFileInputChange}
             />
+
+            {/* OCR Language Selection */}
+            <div className="mt-4 space-y-2">
+              <Label className="text-sm font-medium text-gray-700 flex items-center">
+                <Languages className="w-4 h-4 mr-2" />
+                OCR Languages
+              </Label>
+              {recognitionLanguages.length > 0 ? (
+                <div className="flex flex-wrap gap-1" data-testid="ocr-language-picker">
+                  {recognitionLanguages.map(code => (
+                    <Badge
+                      key={code}
+                      variant={ocrLanguages.includes(code) ? "default" : "outline"}
+                      className="cursor-pointer text-xs"
+                      onClick={() => toggleOcrLanguage(code)}
+                      title={code}
+                      data-testid={`badge-ocr-language-${code}`}
+                    >
+                      {getLanguageName(code)}
+                    </Badge>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  No language packs found on the server. Add *.traineddata files to the tessdata directory.
+                </p>
+              )}
+              <p className="text-xs text-gray-500">Recognizing with: {ocrLanguages.join('+')}</p>
+            </div>
+
+            {/* Preprocessing Options */}
+            <div className="mt-4 space-y-2">
+              <Label className="text-sm font-medium text-gray-700 flex items-center">
+                <SlidersHorizontal className="w-4 h-4 mr-2" />
+                Image Preprocessing
+              </Label>
+              <div className="grid grid-cols-2 gap-2">
+                {([
+                  ['grayscale', 'Grayscale'],
+                  ['binarize', 'Binarize'],
+                  ['denoise', 'Denoise'],
+                ] as const).map(([key, label]) => (
+                  <div key={key} className="flex items-center space-x-2">
+                    <input
+                      id={`preprocess-${key}`}
+                      type="checkbox"
+                      checked={preprocessOptions[key]}
+                      onChange={(e) => updatePreprocessOption(key, e.target.checked)}
+                      className="rounded border-gray-300 text-primary focus:ring-primary"
+                      data-testid={`checkbox-preprocess-${key}`}
+                    />
+                    <Label htmlFor={`preprocess-${key}`} className="text-xs text-gray-600">{label}</Label>
+                  </div>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="preprocessInvert" className="text-xs text-gray-600 mb-1 block">Invert</Label>
+                  <select
+                    id="preprocessInvert"
+                    value={preprocessOptions.invert}
+                    onChange={(e) => updatePreprocessOption('invert', e.target.value as InvertMode)}
+                    className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    data-testid="select-preprocess-invert"
+                  >
+                    <option value="auto">Auto (dark mode)</option>
+                    <option value="on">Always</option>
+                    <option value="off">Never</option>
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="preprocessUpscale" className="text-xs text-gray-600 mb-1 block">Upscale</Label>
+                  <select
+                    id="preprocessUpscale"
+                    value={preprocessOptions.upscale}
+                    onChange={(e) => updatePreprocessOption('upscale', parseInt(e.target.value) as PreprocessOptions['upscale'])}
+                    className="w-full px-2 py-1 text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                    data-testid="select-preprocess-upscale"
+                  >
+                    <option value={1}>Off</option>
+                    <option value={2}>2x</option>
+                    <option value={3}>3x</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    id="detectOrientation"
+                    type="checkbox"
+                    checked={useOrientationDetection && osdAvailable}
+                    disabled={!osdAvailable}
+                    onChange={(e) => setUseOrientationDetection(e.target.checked)}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                    data-testid="checkbox-detect-orientation"
+                  />
+                  <Label
+                    htmlFor="detectOrientation"
+                    className="text-xs text-gray-600"
+                    title={osdAvailable ? undefined : "Requires osd.traineddata in the tessdata directory"}
+                  >
+                    Page orientation
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    id="lineSkew"
+                    type="checkbox"
+                    checked={useLineSkew}
+                    onChange={(e) => setUseLineSkew(e.target.checked)}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                    data-testid="checkbox-line-skew"
+                  />
+                  <Label htmlFor="lineSkew" className="text-xs text-gray-600">Skewed lines</Label>
+                </div>
+              </div>
+              {originalImage && (
+                <Button
+                  onClick={showPreprocessPreview}
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  data-testid="button-preview-preprocess"
+                >
+                  <Eye className="w-4 h-4 mr-2" />
+                  Preview Processed Image
+                </Button>
+              )}
+              {originalImage && !isProcessingOCR && (
+                <Button
+                  onClick={rerunOCR}
+                  variant={lastOcrSettings !== JSON.stringify({ language: ocrLanguages.join('+'), preprocessOptions, useOrientationDetection, useLineSkew }) ? "default" : "outline"}
+                  size="sm"
+                  className="w-full"
+                  data-testid="button-rerun-ocr"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Re-run OCR
+                </Button>
+              )}
+            </div>
           </div>
 
           {/* OCR Processing Status */}
@@ -1250,6 +2435,43 @@ export default function Home() {
                 </div>
                 <Progress value={ocrProgress} className="w-full" />
                 <p className="text-xs text-gray-500">{ocrProgressText}</p>
+
+                {/* Job Queue */}
+                {ocrJobs.length > 0 && (
+                  <div className="space-y-1" data-testid="ocr-job-queue">
+                    {ocrJobs.map(job => (
+                      <div key={job.id} className="flex items-center justify-between text-xs border border-gray-200 rounded px-2 py-1">
+                        <div>
+                          <span className="font-medium text-gray-700">{job.label}</span>
+                          <span className="text-gray-500 ml-2">
+                            {job.status === 'running' ? `${Math.round(job.progress * 100)}%` : 'Queued'}
+                          </span>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => ocrWorkerPool.cancel(job.id)}
+                          className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                          title="Cancel this job"
+                          data-testid={`button-cancel-ocr-job-${job.id}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <Button
+                  onClick={() => ocrWorkerPool.cancelAll()}
+                  variant="outline"
+                  size="sm"
+                  className="w-full text-red-600 border-red-200 hover:bg-red-50"
+                  data-testid="button-cancel-ocr"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
               </div>
             </div>
           )}
@@ -1259,9 +2481,28 @@ export default function Home() {
             <div className="flex-1 p-4 sm:p-6 overflow-y-auto">
               <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-4">Text Replacement</h3>
               
+              {/* Selection Granularity */}
+              <div className="mb-4">
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Select By</Label>
+                <div className="grid grid-cols-3 gap-1" data-testid="selection-granularity">
+                  {(Object.keys(granularityLabels) as SelectionGranularity[]).map(granularity => (
+                    <Button
+                      key={granularity}
+                      onClick={() => changeSelectionGranularity(granularity)}
+                      variant={selectionGranularity === granularity ? "default" : "outline"}
+                      size="sm"
+                      className="text-xs"
+                      data-testid={`button-granularity-${granularity}`}
+                    >
+                      {granularityLabels[granularity]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
               {/* Detected Words */}
               <div className="mb-6">
-                <Label className="text-sm font-medium text-gray-700 mb-2 block">Detected Words</Label>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">Detected {granularityLabels[selectionGranularity]}</Label>
                 <div className="space-y-2 max-h-32 overflow-y-auto border border-gray-200 rounded-lg p-2">
                   {validWords.length > 0 ? (
                     <div className="flex flex-wrap gap-1">
@@ -1291,7 +2532,7 @@ export default function Home() {
                       <div>
                         <p className="text-sm font-medium text-green-800">Selected Text</p>
                         <p className="text-sm text-green-600">
-                          {ocrData.words.find(w => w.id === selectedTextId)?.text}
+                          {getSelectionTarget(selectedTextId)?.text}
                         </p>
                       </div>
                       <Button
@@ -1315,6 +2556,87 @@ export default function Home() {
                         <X className="w-4 h-4" />
                       </Button>
                     </div>
+                    <div className="mt-2 pt-2 border-t border-green-200 space-y-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full text-xs h-7"
+                        onClick={matchSelectedFont}
+                        data-testid="button-match-font"
+                      >
+                        <Type className="w-3 h-3 mr-1" />
+                        Match font
+                      </Button>
+                      {fontMatches?.targetId === selectedTextId && fontMatches.matches.map((match, index) => (
+                        <button
+                          key={`${match.fontFamily}-${match.fontWeight}-${match.fontStyle}`}
+                          type="button"
+                          onClick={() => applyFontMatch(match)}
+                          className={`w-full flex justify-between items-center rounded px-2 py-1 text-left text-xs hover:bg-green-100 ${
+                            selectedFont === match.fontFamily && fontWeight === match.fontWeight && fontStyle === match.fontStyle
+                              ? 'bg-green-100 font-medium text-green-900'
+                              : 'text-green-800'
+                          }`}
+                          style={{ fontFamily: `"${match.fontFamily}"`, fontWeight: match.fontWeight, fontStyle: match.fontStyle }}
+                          data-testid={`font-match-${index}`}
+                        >
+                          <span className="truncate">{match.fontFamily} {match.fontSize}px</span>
+                          <span className="shrink-0 font-sans font-normal not-italic">{Math.round(match.similarity * 100)}%</span>
+                        </button>
+                      ))}
+                    </div>
+                    {getEditedWords(getSelectionTarget(selectedTextId)).length > 0 && (
+                      <div className="mt-2 pt-2 border-t border-green-200">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full text-xs h-7"
+                          onClick={revertSelectedEdit}
+                          data-testid="button-revert-edit"
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Revert this edit
+                        </Button>
+                      </div>
+                    )}
+                    {selectedBoxWord && (
+                      <div className="mt-2 pt-2 border-t border-green-200 space-y-1">
+                        <p className="text-xs text-green-700">With bounding boxes shown, drag the handles on the canvas to resize this box.</p>
+                        <div className="grid grid-cols-3 gap-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-xs h-7 px-1"
+                            onClick={() => setSplitIndex(Math.max(1, Math.floor(selectedBoxWord.text.length / 2)))}
+                            disabled={selectedBoxWord.text.length < 2}
+                            data-testid="button-split-box"
+                          >
+                            <SplitSquareHorizontal className="w-3 h-3 mr-1" />
+                            Split
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-xs h-7 px-1"
+                            onClick={handleMergeWithNext}
+                            data-testid="button-merge-box"
+                          >
+                            <Combine className="w-3 h-3 mr-1" />
+                            Merge →
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-xs h-7 px-1 text-red-600"
+                            onClick={handleRemoveWord}
+                            data-testid="button-delete-box"
+                          >
+                            <Trash2 className="w-3 h-3 mr-1" />
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
@@ -1334,13 +2656,29 @@ export default function Home() {
                   <Label htmlFor="newText" className="text-sm font-medium text-gray-700 mb-1 block">
                     Replacement Text
                   </Label>
-                  <Input
-                    id="newText"
-                    value={newText}
-                    onChange={(e) => setNewText(e.target.value)}
-                    placeholder={selectedTextId ? "Enter new text" : "Select text first"}
-                    disabled={!selectedTextId}
-                  />
+                  {isMultilineSelection ? (
+                    <>
+                      <Textarea
+                        id="newText"
+                        value={newText}
+                        onChange={(e) => setNewText(e.target.value)}
+                        placeholder="Enter new text"
+                        rows={4}
+                        data-testid="textarea-new-text"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Wraps to the width of the selection on its original line spacing. Press Enter for a line break.
+                      </p>
+                    </>
+                  ) : (
+                    <Input
+                      id="newText"
+                      value={newText}
+                      onChange={(e) => setNewText(e.target.value)}
+                      placeholder={selectedTextId ? "Enter new text" : "Select text first"}
+                      disabled={!selectedTextId}
+                    />
+                  )}
                 </div>
 
                 {/* Text Styling Options */}
@@ -1356,34 +2694,197 @@ export default function Home() {
                         onChange={(e) => setSelectedFont(e.target.value)}
                         className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
                       >
-                        <option value="Arial">Arial</option>
-                        <option value="Helvetica">Helvetica</option>
-                        <option value="Times New Roman">Times New Roman</option>
-                        <option value="Georgia">Georgia</option>
-                        <option value="Verdana">Verdana</option>
-                        <option value="Courier New">Courier New</option>
-                        <option value="Impact">Impact</option>
-                        <option value="Trebuchet MS">Trebuchet MS</option>
+                        <optgroup label="System fonts">
+                          {fontFamilies.map(family => (
+                            <option key={family} value={family}>{family}</option>
+                          ))}
+                        </optgroup>
+                        {libraryFamilies.length > 0 && (
+                          <optgroup label="Font library">
+                            {libraryFamilies.map(family => (
+                              <option key={family} value={family}>{family}</option>
+                            ))}
+                          </optgroup>
+                        )}
+                        {/* A stored edit may use a font that has since been removed */}
+                        {!availableFamilies.includes(selectedFont) && (
+                          <option value={selectedFont}>{selectedFont} (unavailable)</option>
+                        )}
                       </select>
                     </div>
 
+                    <div>
+                      <div className="flex items-center justify-between mb-1">
+                        <Label className="text-xs text-gray-600">Font Library</Label>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => fontInputRef.current?.click()}
+                          disabled={isUploadingFont}
+                          data-testid="button-upload-font"
+                        >
+                          {isUploadingFont ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />}
+                          Upload font
+                        </Button>
+                        <input
+                          ref={fontInputRef}
+                          type="file"
+                          accept=".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2"
+                          multiple
+                          className="hidden"
+                          onChange={handleFontUpload}
+                          data-testid="input-font-file"
+                        />
+                      </div>
+                      {fontLibrary && fontLibrary.fonts.length > 0 ? (
+                        <div className="max-h-32 overflow-y-auto space-y-1">
+                          {fontLibrary.fonts.map(font => (
+                            <div key={font.id} className="flex items-center justify-between gap-2 text-xs">
+                              <button
+                                type="button"
+                                onClick={() => setSelectedFont(font.family)}
+                                className="truncate text-left text-gray-700 hover:text-gray-900"
+                                style={{ fontFamily: `"${font.family}"`, fontWeight: font.weight, fontStyle: font.style }}
+                                title={font.originalName}
+                              >
+                                {font.family} {fontWeights.find(w => w.value === font.weight)?.label ?? font.weight}
+                                {font.style === 'italic' ? ' Italic' : ''}
+                              </button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => deleteLibraryFont(font.id)}
+                                className="h-5 w-5 p-0 text-red-500 hover:text-red-700"
+                                data-testid={`button-delete-font-${font.id}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-xs text-gray-500">Upload TTF, OTF or WOFF2 files to share them with your team.</p>
+                      )}
+                    </div>
+
+                    <div className="flex items-end gap-2">
+                      <div className="flex-1">
+                        <Label htmlFor="fontWeight" className="text-xs text-gray-600 mb-1 block">Weight</Label>
+                        <select
+                          id="fontWeight"
+                          value={fontWeight}
+                          onChange={(e) => setFontWeight(parseInt(e.target.value, 10))}
+                          className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                          data-testid="select-font-weight"
+                        >
+                          {fontWeights.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <Button
+                        variant={fontStyle === 'italic' ? 'default' : 'outline'}
+                        size="sm"
+                        className="h-9 w-9 p-0"
+                        onClick={() => setFontStyle(fontStyle === 'italic' ? 'normal' : 'italic')}
+                        title="Italic"
+                        data-testid="button-italic"
+                      >
+                        <Italic className="w-4 h-4" />
+                      </Button>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="fontFit" className="text-xs text-gray-600 mb-1 block">Size</Label>
+                      <div className="flex gap-2">
+                        <select
+                          id="fontFit"
+                          value={fontFit}
+                          onChange={(e) => setFontFit(e.target.value as FontFit)}
+                          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                          data-testid="select-font-fit"
+                        >
+                          {fontFits.map(({ value, label }) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                        {fontFit === 'fixed' && (
+                          <Input
+                            id="fontSizeOverride"
+                            type="number"
+                            min={1}
+                            value={fontSizeOverride ?? ''}
+                            onChange={(e) => {
+                              const size = parseFloat(e.target.value);
+                              setFontSizeOverride(size > 0 ? size : null);
+                            }}
+                            placeholder="px"
+                            className="h-9 w-20"
+                            data-testid="input-font-size"
+                          />
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <Label className="text-xs text-gray-600">Alignment</Label>
+                      <div className="flex">
+                        {([
+                          ['left', AlignLeft],
+                          ['center', AlignCenter],
+                          ['right', AlignRight],
+                          ...(isMultilineSelection || textAlign === 'justify' ? [['justify', AlignJustify] as const] : [])
+                        ] as const).map(([align, Icon]) => (
+                          <Button
+                            key={align}
+                            variant={textAlign === align ? 'default' : 'outline'}
+                            size="sm"
+                            className="h-9 w-9 p-0 rounded-none first:rounded-l-md last:rounded-r-md"
+                            onClick={() => setTextAlign(align)}
+                            title={`Align ${align}`}
+                            data-testid={`button-align-${align}`}
+                          >
+                            <Icon className="w-4 h-4" />
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <Label htmlFor="letterSpacing" className="text-xs text-gray-600 mb-1 block">
+                        Letter Spacing: {letterSpacing}px
+                      </Label>
+                      <input
+                        id="letterSpacing"
+                        type="range"
+                        min="-5"
+                        max="20"
+                        step="0.5"
+                        value={letterSpacing}
+                        onChange={(e) => setLetterSpacing(parseFloat(e.target.value))}
+                        className="w-full"
+                      />
+                    </div>
+
                     <div>
                       <Label htmlFor="fontSizeMultiplier" className="text-xs text-gray-600 mb-1 block">
-                        Font Size Calibration: {fontSizeMultiplier}x
+                        Size Calibration: {fontSizeMultiplier.toFixed(2)}x
                       </Label>
                       <input
                         id="fontSizeMultiplier"
                         type="range"
-                        min="0.8"
-                        max="1.8"
-                        step="0.1"
+                        min="0.5"
+                        max="2"
+                        step="0.05"
                         value={fontSizeMultiplier}
                         onChange={(e) => setFontSizeMultiplier(parseFloat(e.target.value))}
-                        className="w-full"
+                        disabled={fontFit === 'fixed'}
+                        className="w-full disabled:opacity-50"
                       />
                       <div className="flex justify-between text-xs text-gray-500 mt-1">
                         <span>Smaller</span>
-                        <span>Perfect Match</span>
+                        <span>As fitted</span>
                         <span>Larger</span>
                       </div>
                     </div>
@@ -1541,7 +3042,7 @@ export default function Home() {
                                     if (originalImage && canvasRef.current) {
                                       const canvas = canvasRef.current;
                                       const ctx = canvas.getContext('2d');
-                                      const selectedWord = ocrData?.words.find(w => w.id === selectedTextId);
+                                      const selectedWord = getSelectionTarget(selectedTextId);
                                       if (ctx && selectedWord) {
                                         // Sample color from around the text area
                                         const { x0, y0, x1, y1 } = selectedWord.bbox;
@@ -1589,6 +3090,23 @@ export default function Home() {
                         </Label>
                       </div>
                       
+                      {usePerfectMatcher && (
+                        <div className="ml-6">
+                          <Label htmlFor="textureFill" className="text-xs text-gray-600 mb-1 block">Textured backgrounds</Label>
+                          <select
+                            id="textureFill"
+                            value={textureFill}
+                            onChange={(e) => setTextureFill(e.target.value as TextureFill)}
+                            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                            data-testid="select-texture-fill"
+                          >
+                            {textureFills.map(({ value, label }) => (
+                              <option key={value} value={value}>{label}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
                       {!usePerfectMatcher && (
                         <div className="flex items-center space-x-2 ml-6">
                           <input
@@ -1603,6 +3121,38 @@ export default function Home() {
                           </Label>
                         </div>
                       )}
+
+                      <div className="flex items-center space-x-2">
+                        <input
+                          id="glyphMask"
+                          type="checkbox"
+                          checked={useGlyphMask}
+                          onChange={(e) => setUseGlyphMask(e.target.checked)}
+                          className="rounded border-gray-300 text-primary focus:ring-primary"
+                          data-testid="checkbox-glyph-mask"
+                        />
+                        <Label htmlFor="glyphMask" className="text-xs text-gray-600">
+                          Erase only text pixels (keeps underlines, icons and borders)
+                        </Label>
+                      </div>
+
+                      {useGlyphMask && (
+                        <div className="ml-6">
+                          <Label htmlFor="glyphMaskDilation" className="text-xs text-gray-600 mb-1 block">
+                            Mask growth: {glyphMaskDilation}px
+                          </Label>
+                          <input
+                            id="glyphMaskDilation"
+                            type="range"
+                            min="0"
+                            max="6"
+                            step="1"
+                            value={glyphMaskDilation}
+                            onChange={(e) => setGlyphMaskDilation(parseInt(e.target.value))}
+                            className="w-full"
+                          />
+                        </div>
+                      )}
                     </div>
 
                     {/* Background Matcher Information */}
@@ -1641,31 +3191,203 @@ export default function Home() {
                 </Button>
               </div>
 
-              {/* Replacement History */}
-              {replacementHistory.length > 0 && (
+              {/* Find and Replace */}
+              <div className="mt-6 pt-6 border-t border-gray-200 space-y-3" data-testid="find-replace-panel">
+                <h4 className="text-sm font-medium text-gray-700 flex items-center">
+                  <TextSearch className="w-4 h-4 mr-2" />
+                  Find & Replace
+                </h4>
+                <div>
+                  <Label htmlFor="findQuery" className="text-xs text-gray-600 mb-1 block">Find</Label>
+                  <Input
+                    id="findQuery"
+                    value={findQuery}
+                    onChange={(e) => setFindQuery(e.target.value)}
+                    placeholder={findOptions.useRegex ? "Regular expression" : "Text to find"}
+                    className={findResult.error ? "border-red-500" : undefined}
+                    data-testid="input-find"
+                  />
+                  {findResult.error && (
+                    <p className="text-xs text-red-600 mt-1">{findResult.error}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="findReplacement" className="text-xs text-gray-600 mb-1 block">Replace with</Label>
+                  <Input
+                    id="findReplacement"
+                    value={findReplacement}
+                    onChange={(e) => setFindReplacement(e.target.value)}
+                    placeholder={findOptions.useRegex ? "Replacement ($1 for groups)" : "Replacement text"}
+                    data-testid="input-replace"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    ['useRegex', 'Regex'],
+                    ['matchCase', 'Match case'],
+                    ['wholeWord', 'Whole word'],
+                    ['preserveCase', 'Preserve case'],
+                  ] as const).map(([key, label]) => (
+                    <div key={key} className="flex items-center space-x-2">
+                      <input
+                        id={`find-${key}`}
+                        type="checkbox"
+                        checked={findOptions[key]}
+                        onChange={(e) => updateFindOption(key, e.target.checked)}
+                        className="rounded border-gray-300 text-primary focus:ring-primary"
+                        data-testid={`checkbox-find-${key}`}
+                      />
+                      <Label htmlFor={`find-${key}`} className="text-xs text-gray-600">{label}</Label>
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-1" data-testid="find-scope">
+                  {([['word', 'Words'], ['line', 'Lines']] as const).map(([scope, label]) => (
+                    <Button
+                      key={scope}
+                      onClick={() => updateFindOption('scope', scope)}
+                      variant={findOptions.scope === scope ? "default" : "outline"}
+                      size="sm"
+                      className="text-xs"
+                      data-testid={`button-find-scope-${scope}`}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                {findQuery && !findResult.error && (
+                  <p className="text-xs text-gray-500" data-testid="text-find-count">
+                    {findResult.matches.length} {findOptions.scope === 'line' ? 'line' : 'word'}{findResult.matches.length === 1 ? '' : 's'} match, highlighted in orange
+                  </p>
+                )}
+                <Button
+                  onClick={replaceAllMatches}
+                  className="w-full"
+                  disabled={findResult.matches.length === 0}
+                  data-testid="button-replace-all"
+                >
+                  <ReplaceAll className="w-4 h-4 mr-2" />
+                  Replace All{findResult.matches.length > 0 ? ` (${findResult.matches.length})` : ''}
+                </Button>
+              </div>
+
+              {/* Edit History */}
+              {editHistory.entries.length > 0 && (
                 <div className="mt-6">
-                  <h4 className="text-sm font-medium text-gray-700 mb-2">Recent Replacements</h4>
-                  <div className="space-y-2">
-                    {replacementHistory.map((item) => (
-                      <Card key={item.id} className="replacement-history-item">
-                        <CardContent className="p-2">
-                          <div className="flex justify-between items-center">
-                            <div className="text-xs">
-                              <span className="font-medium">{item.oldText}</span>
-                              {" → "}
-                              <span className="font-medium">{item.newText}</span>
-                            </div>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => removeHistoryItem(item.id)}
-                              className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
-                            >
-                              <X className="h-3 w-3" />
-                            </Button>
-                          </div>
-                        </CardContent>
-                      </Card>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-medium text-gray-700">History</h4>
+                    <div className="flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={undo}
+                        disabled={!canUndo(editHistory)}
+                        className="h-7 w-7 p-0"
+                        title="Undo (Ctrl+Z)"
+                        data-testid="button-undo"
+                      >
+                        <Undo2 className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={redo}
+                        disabled={!canRedo(editHistory)}
+                        className="h-7 w-7 p-0"
+                        title="Redo (Ctrl+Shift+Z)"
+                        data-testid="button-redo"
+                      >
+                        <Redo2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="max-h-64 overflow-y-auto space-y-1">
+                    {editHistory.entries.map((entry, index) => (
+                      <button
+                        key={entry.id}
+                        type="button"
+                        onClick={() => restoreHistoryEntry(index)}
+                        className={`w-full flex justify-between items-center gap-2 rounded px-2 py-1 text-left text-xs ${
+                          index === editHistory.index
+                            ? 'bg-blue-50 text-blue-700 font-medium'
+                            : index > editHistory.index
+                              ? 'text-gray-400 hover:bg-gray-50'
+                              : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                        data-testid={`history-entry-${index}`}
+                      >
+                        <span className="truncate">{entry.label}</span>
+                        <span className="shrink-0 text-gray-400">
+                          {new Date(entry.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Layers: one per edit, top of the stack first */}
+              {editLayers.length > 0 && (
+                <div className="mt-6">
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Layers</h4>
+                  <div className="max-h-64 overflow-y-auto space-y-1">
+                    {[...editLayers].reverse().map((word, index) => (
+                      <div
+                        key={word.id}
+                        className={`flex items-center gap-1 rounded px-2 py-1 text-xs ${
+                          word.id === selectedTextId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                        }`}
+                        data-testid={`layer-${word.id}`}
+                      >
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setOcrData(prev => prev ? setLayerHidden(prev, word.id, !word.layerHidden) : prev)}
+                          className="h-6 w-6 p-0"
+                          title={word.layerHidden ? 'Show edit' : 'Hide edit'}
+                          data-testid={`button-layer-visibility-${word.id}`}
+                        >
+                          {word.layerHidden ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+                        </Button>
+                        <span
+                          className={`flex-1 truncate ${word.layerHidden ? 'text-gray-400 line-through' : ''}`}
+                          title={`${word.originalText ?? ''} → ${word.text}`}
+                        >
+                          {word.text}
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setOcrData(prev => prev ? moveLayer(prev, word.id, 1) : prev)}
+                          disabled={index === 0}
+                          className="h-6 w-6 p-0"
+                          title="Move up"
+                          data-testid={`button-layer-up-${word.id}`}
+                        >
+                          <ChevronUp className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setOcrData(prev => prev ? moveLayer(prev, word.id, -1) : prev)}
+                          disabled={index === editLayers.length - 1}
+                          className="h-6 w-6 p-0"
+                          title="Move down"
+                          data-testid={`button-layer-down-${word.id}`}
+                        >
+                          <ChevronDown className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setOcrData(prev => prev ? revertWord(prev, word.id) : prev)}
+                          className="h-6 w-6 p-0 text-gray-400 hover:text-red-600"
+                          title="Delete edit"
+                          data-testid={`button-layer-delete-${word.id}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
                     ))}
                   </div>
                 </div>
@@ -1676,6 +3398,65 @@ export default function Home() {
                 <div className="mt-6 pt-6 border-t border-gray-200">
                   <h4 className="text-sm font-medium text-gray-700 mb-3">Canvas Controls</h4>
                   <div className="space-y-2">
+                    <div className="flex items-center gap-1">
+                      <Button
+                        onClick={() => zoomTo(scale => stepZoom(scale, -1))}
+                        variant="outline"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Zoom out"
+                        data-testid="button-zoom-out"
+                      >
+                        <ZoomOut className="w-4 h-4" />
+                      </Button>
+                      <span className="flex-1 text-center text-xs text-gray-600" data-testid="text-zoom">
+                        {formatZoom(viewScale)}
+                      </span>
+                      <Button
+                        onClick={() => zoomTo(scale => stepZoom(scale, 1))}
+                        variant="outline"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        title="Zoom in"
+                        data-testid="button-zoom-in"
+                      >
+                        <ZoomIn className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        onClick={() => setZoom(null)}
+                        variant="outline"
+                        size="sm"
+                        className="h-8 px-2 text-xs"
+                        data-testid="button-zoom-fit"
+                      >
+                        Fit
+                      </Button>
+                      <Button
+                        onClick={() => zoomTo(() => 1)}
+                        variant="outline"
+                        size="sm"
+                        className="h-8 px-2 text-xs"
+                        data-testid="button-zoom-actual"
+                      >
+                        100%
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Scroll or pinch to zoom, hold Space and drag to pan.
+                    </p>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        id="pixelGrid"
+                        type="checkbox"
+                        checked={showPixelGrid}
+                        onChange={(e) => setShowPixelGrid(e.target.checked)}
+                        className="rounded border-gray-300 text-primary focus:ring-primary"
+                        data-testid="checkbox-pixel-grid"
+                      />
+                      <Label htmlFor="pixelGrid" className="text-xs text-gray-600">
+                        Pixel grid from {formatZoom(PIXEL_GRID_MIN_ZOOM)}
+                      </Label>
+                    </div>
                     <Button
                       onClick={() => setShowBoundingBoxes(!showBoundingBoxes)}
                       variant="outline"
@@ -1696,6 +3477,36 @@ export default function Home() {
                       <Pipette className="w-4 h-4 mr-2" />
                       {isEyedropperActive ? 'Exit Color Picker' : 'Color Picker'}
                     </Button>
+                    <Button
+                      onClick={toggleRegionScan}
+                      variant={isRegionScanActive ? "default" : "outline"}
+                      size="sm"
+                      className={`w-full ${isRegionScanActive ? 'bg-primary text-primary-foreground' : ''}`}
+                      data-testid="button-scan-region"
+                    >
+                      <ScanText className="w-4 h-4 mr-2" />
+                      {isRegionScanActive ? 'Cancel Region Scan' : 'Scan Region'}
+                    </Button>
+                    {isRegionScanActive && (
+                      <p className="text-xs text-gray-500">
+                        Drag a rectangle around text that was missed. It is enlarged and scanned again.
+                      </p>
+                    )}
+                    <Button
+                      onClick={toggleDrawBox}
+                      variant={isDrawBoxActive ? "default" : "outline"}
+                      size="sm"
+                      className={`w-full ${isDrawBoxActive ? 'bg-primary text-primary-foreground' : ''}`}
+                      data-testid="button-draw-box"
+                    >
+                      <SquarePlus className="w-4 h-4 mr-2" />
+                      {isDrawBoxActive ? 'Cancel Drawing' : 'Draw Text Box'}
+                    </Button>
+                    {isDrawBoxActive && (
+                      <p className="text-xs text-gray-500">
+                        Drag a rectangle around a word OCR missed, then type the text it contains.
+                      </p>
+                    )}
                     <Button
                       onClick={resetToOriginal}
                       variant="outline"
@@ -1716,18 +3527,108 @@ export default function Home() {
         <div className="flex-1 flex flex-col bg-gray-100 order-1 lg:order-2">
           <div className="flex-1 flex items-center justify-center p-3 sm:p-6">
             {originalImage ? (
-              <div className="canvas-container bg-white rounded-lg shadow-lg p-2 sm:p-4 w-full max-w-full overflow-auto">
-                <canvas 
-                  ref={canvasRef}
-                  id="imageCanvas"
-                  className={`border border-gray-300 rounded ${
-                    isEyedropperActive ? 'cursor-crosshair' : 'cursor-default'
+              <div className="relative w-full">
+                <div
+                  ref={canvasContainerRef}
+                  className={`canvas-container bg-white rounded-lg shadow-lg p-2 sm:p-4 w-full max-w-full overflow-auto ${
+                    isPanning ? 'cursor-grabbing' : isSpaceHeld ? 'cursor-grab' : ''
                   }`}
-                  onClick={handleCanvasClick}
-                  onMouseMove={handleCanvasMouseMove}
-                  onMouseLeave={handleCanvasMouseLeave}
-                  data-testid="image-canvas"
-                />
+                  style={{ touchAction: 'pan-x pan-y' }}
+                  onScroll={drawMinimap}
+                  onMouseDownCapture={handlePanStart}
+                  onMouseMoveCapture={handlePanMove}
+                  onClickCapture={handlePanClick}
+                  data-testid="canvas-container"
+                >
+                  <div className="relative inline-block">
+                    <canvas 
+                      ref={canvasRef}
+                      id="imageCanvas"
+                      className={`box-content border border-gray-300 rounded ${
+                        isSpaceHeld ? '' : isEyedropperActive || isRegionScanActive || isDrawBoxActive ? 'cursor-crosshair' : 'cursor-default'
+                      }`}
+                      style={{
+                        width: originalImage.naturalWidth * viewScale,
+                        height: originalImage.naturalHeight * viewScale,
+                        // Show image pixels as crisp squares when zoomed in
+                        imageRendering: viewScale > 1 ? 'pixelated' : 'auto'
+                      }}
+                      onClick={handleCanvasClick}
+                      onMouseDown={handleCanvasMouseDown}
+                      onMouseUp={handleCanvasMouseUp}
+                      onMouseMove={handleCanvasMouseMove}
+                      onMouseLeave={handleCanvasMouseLeave}
+                      data-testid="image-canvas"
+                    />
+                    {/* The canvas is content-box, so its image area is exactly the zoomed size and
+                        getCanvasFrame's scale is viewScale; the grid lines up with every pixel */}
+                    {showPixelGrid && viewScale >= PIXEL_GRID_MIN_ZOOM && canvasRef.current && (
+                      <div
+                        className="absolute pointer-events-none"
+                        style={{
+                          left: canvasRef.current.clientLeft,
+                          top: canvasRef.current.clientTop,
+                          width: originalImage.naturalWidth * viewScale,
+                          height: originalImage.naturalHeight * viewScale,
+                          backgroundImage: 'linear-gradient(to right, rgba(0, 0, 0, 0.2) 1px, transparent 1px), ' +
+                            'linear-gradient(to bottom, rgba(0, 0, 0, 0.2) 1px, transparent 1px)',
+                          backgroundSize: `${viewScale}px ${viewScale}px`
+                        }}
+                        data-testid="pixel-grid"
+                      />
+                    )}
+                    {canvasRef.current && erasingWordIds.length > 0 && (() => {
+                      // Words whose background is still being rebuilt
+                      const canvas = canvasRef.current;
+                      const displayScale = canvas.clientWidth / canvas.width;
+                      return (ocrData?.words ?? []).filter(word => erasingWordIds.includes(word.id)).map(word => (
+                        <div
+                          key={word.id}
+                          className="absolute flex items-center justify-center bg-white/60 pointer-events-none"
+                          style={{
+                            left: canvas.clientLeft + word.bbox.x0 * displayScale,
+                            top: canvas.clientTop + word.bbox.y0 * displayScale,
+                            width: (word.bbox.x1 - word.bbox.x0) * displayScale,
+                            height: (word.bbox.y1 - word.bbox.y0) * displayScale,
+                          }}
+                          data-testid={`erasing-${word.id}`}
+                        >
+                          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+                        </div>
+                      ));
+                    })()}
+                    {dragSelection && canvasRef.current && (() => {
+                      // Overlay is positioned in CSS pixels, the selection is in image pixels
+                      const canvas = canvasRef.current;
+                      const displayScale = canvas.clientWidth / canvas.width;
+                      return (
+                        <div
+                          className="absolute border-2 border-dashed border-primary bg-primary/10 pointer-events-none"
+                          style={{
+                            left: canvas.clientLeft + dragSelection.x * displayScale,
+                            top: canvas.clientTop + dragSelection.y * displayScale,
+                            width: dragSelection.width * displayScale,
+                            height: dragSelection.height * displayScale,
+                          }}
+                          data-testid="drag-selection"
+                        />
+                      );
+                    })()}
+                  </div>
+                </div>
+                {viewScale > fitScale && (
+                  <div className="absolute bottom-3 right-3 rounded bg-white/90 p-1 shadow-md">
+                    <canvas
+                      ref={minimapRef}
+                      className="block cursor-pointer"
+                      onMouseDown={handleMinimapPointer}
+                      onMouseMove={handleMinimapPointer}
+                      title="Click or drag to move the view"
+                      data-testid="minimap"
+                    />
+                    <div className="text-center text-[10px] text-gray-500">{formatZoom(viewScale)}</div>
+                  </div>
+                )}
               </div>
             ) : (
               /* Welcome State */
@@ -1770,6 +3671,89 @@ export default function Home() {
         </div>
       </div>
 
+      {/* New Text Box */}
+      <Dialog open={pendingNewBox !== null} onOpenChange={(open) => !open && setPendingNewBox(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Text Box</DialogTitle>
+            <DialogDescription>
+              Type the text inside the box you drew. It can then be replaced like any detected word.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addDrawnBox();
+            }}
+          >
+            <Input
+              value={newBoxText}
+              onChange={(e) => setNewBoxText(e.target.value)}
+              placeholder="Text in this box"
+              autoFocus
+              data-testid="input-new-box-text"
+            />
+            <Button type="submit" className="w-full" data-testid="button-add-box">
+              <Check className="w-4 h-4 mr-2" />
+              Add Box
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Split Word Box */}
+      <Dialog open={splitIndex !== null && selectedBoxWord !== null} onOpenChange={(open) => !open && setSplitIndex(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Split Box</DialogTitle>
+            <DialogDescription>
+              Choose where to split the word. The box is divided in proportion to the characters on each side.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedBoxWord && splitIndex !== null && (
+            <div className="space-y-3">
+              <input
+                type="range"
+                min="1"
+                max={selectedBoxWord.text.length - 1}
+                step="1"
+                value={splitIndex}
+                onChange={(e) => setSplitIndex(parseInt(e.target.value))}
+                className="w-full"
+                data-testid="slider-split-index"
+              />
+              <p className="text-center font-mono text-sm">
+                {selectedBoxWord.text.slice(0, splitIndex)}
+                <span className="text-primary font-bold"> | </span>
+                {selectedBoxWord.text.slice(splitIndex)}
+              </p>
+              <Button onClick={handleSplitWord} className="w-full" data-testid="button-confirm-split">
+                <SplitSquareHorizontal className="w-4 h-4 mr-2" />
+                Split
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Preprocessed Image Preview */}
+      <Dialog open={preprocessPreview !== null} onOpenChange={(open) => !open && setPreprocessPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Processed Image</DialogTitle>
+            <DialogDescription>
+              This is what the OCR engine sees with the current preprocessing settings. Re-run OCR to apply them.
+            </DialogDescription>
+          </DialogHeader>
+          {preprocessPreview && (
+            <div className="max-h-[70vh] overflow-auto border border-gray-200 rounded">
+              <img src={preprocessPreview} alt="Preprocessed image" className="max-w-full" data-testid="img-preprocess-preview" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Color Preview Tooltip */}
       {showColorPreview && (
         <div
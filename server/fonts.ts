@@ -0,0 +1,93 @@
+import express, { type Express } from "express";
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { fontExtensions, type FontFormat, type LibraryFont } from "@shared/fonts";
+
+// Directory holding the shared font library: the uploaded files plus library.json
+// describing them. Override with FONTS_DIR to keep it outside the checkout.
+export const fontsDir = path.resolve(
+  process.env.FONTS_DIR || path.resolve(import.meta.dirname, "..", "fonts"),
+);
+
+const manifestPath = path.join(fontsDir, "library.json");
+
+// Only stored font files, "<id>.<ext>", are served; the manifest and its temp file stay private
+const fontFilePattern = new RegExp(
+  `^/[0-9a-f-]+\\.(${Object.values(fontExtensions).join("|")})$`,
+);
+
+// Files never change once stored (every upload gets a new ID), so they can be cached for good
+export function serveFontFiles(app: Express) {
+  app.use(
+    "/fonts/files",
+    (req, res, next) =>
+      fontFilePattern.test(req.path)
+        ? next()
+        : res.status(404).json({ message: "Font file not found" }),
+    express.static(fontsDir, { immutable: true, maxAge: "365d", index: false }),
+  );
+}
+
+export async function listFonts(): Promise<LibraryFont[]> {
+  try {
+    return JSON.parse(await fs.promises.readFile(manifestPath, "utf8"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+async function writeManifest(fonts: LibraryFont[]) {
+  // Write then rename so a crash never leaves a truncated manifest behind
+  const temp = `${manifestPath}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(fonts, null, 2));
+  await fs.promises.rename(temp, manifestPath);
+}
+
+let pending: Promise<unknown> = Promise.resolve();
+
+// Manifest updates run one at a time so concurrent uploads don't drop each other
+function updateLibrary<T>(update: () => Promise<T>): Promise<T> {
+  const job = pending.then(update);
+  pending = job.catch(() => {});
+  return job;
+}
+
+export function addFont(
+  data: Buffer,
+  format: FontFormat,
+  face: Pick<LibraryFont, "family" | "weight" | "style">,
+  originalName: string,
+): Promise<LibraryFont> {
+  return updateLibrary(async () => {
+    await fs.promises.mkdir(fontsDir, { recursive: true });
+
+    const id = randomUUID();
+    const font: LibraryFont = {
+      id,
+      ...face,
+      format,
+      fileName: `${id}.${fontExtensions[format]}`,
+      originalName,
+      uploadedAt: new Date().toISOString(),
+    };
+
+    await fs.promises.writeFile(path.join(fontsDir, font.fileName), data);
+    await writeManifest([...(await listFonts()), font]);
+    return font;
+  });
+}
+
+// Returns false when no font has the ID
+export function removeFont(id: string): Promise<boolean> {
+  return updateLibrary(async () => {
+    const fonts = await listFonts();
+    const font = fonts.find((f) => f.id === id);
+    if (!font) return false;
+
+    await writeManifest(fonts.filter((f) => f.id !== id));
+    await fs.promises.rm(path.join(fontsDir, font.fileName), { force: true });
+    return true;
+  });
+}
@@ -1,6 +1,9 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { detectFontFormat, guessFontFace } from "@shared/fonts";
+import { addFont, listFonts, removeFont, serveFontFiles } from "./fonts";
+import { listInstalledLanguages, listRecognitionLanguages, recognizeImage, serveTesseractAssets } from "./tesseract";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -9,6 +12,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  serveTesseractAssets(app);
+  serveFontFiles(app);
+
+  app.get("/api/ocr/languages", async (_req, res, next) => {
+    try {
+      const languages = await listInstalledLanguages();
+      res.json({ languages });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Recognize an uploaded image. Send the raw file as the request body with its
+  // image/* content type; `lang` picks the language packs, e.g. ?lang=eng+deu. The
+  // query parser decodes an unescaped "+" as a space, so spaces separate codes too.
+  // Responds with the same OCRData the editor works with.
+  app.post(
+    "/api/ocr",
+    express.raw({ type: "image/*", limit: "20mb" }),
+    async (req, res, next) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Expected an image body with an image/* content type" });
+        }
+
+        const codes = typeof req.query.lang === "string" ? req.query.lang.split(/[+\s]+/).filter(Boolean) : [];
+        const lang = codes.length > 0 ? codes.join("+") : "eng";
+        const installed = await listRecognitionLanguages();
+        const missing = lang.split("+").filter((code) => !installed.includes(code));
+        if (missing.length > 0) {
+          return res.status(400).json({ message: `No recognition language data installed for: ${missing.join(", ")}` });
+        }
+
+        const data = await recognizeImage(req.body, lang);
+        res.json(data);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  app.get("/api/fonts", async (_req, res, next) => {
+    try {
+      const fonts = await listFonts();
+      res.json({ fonts });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Add a TTF, OTF, WOFF or WOFF2 file to the shared font library. Send the file as the
+  // raw request body; `name` is its file name, and `family`, `weight` and `style` default
+  // to what the name suggests (e.g. Inter-BoldItalic.ttf is Inter 700 italic).
+  app.post(
+    "/api/fonts",
+    express.raw({ type: () => true, limit: "10mb" }),
+    async (req, res, next) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Expected a font file as the request body" });
+        }
+
+        const format = detectFontFormat(req.body);
+        if (!format) {
+          return res.status(400).json({ message: "Unsupported font file; use TTF, OTF, WOFF or WOFF2" });
+        }
+
+        const query = (key: string) => (typeof req.query[key] === "string" ? (req.query[key] as string).trim() : "");
+        const originalName = query("name") || `font.${format}`;
+        const guessed = guessFontFace(originalName);
+        const weight = query("weight") ? parseInt(query("weight"), 10) : guessed.weight;
+        if (!(weight >= 1 && weight <= 1000)) {
+          return res.status(400).json({ message: "Font weight must be between 1 and 1000" });
+        }
+        const style = query("style") || guessed.style;
+        if (style !== "normal" && style !== "italic") {
+          return res.status(400).json({ message: "Font style must be normal or italic" });
+        }
+
+        const font = await addFont(req.body, format, { family: query("family") || guessed.family, weight, style }, originalName);
+        res.status(201).json(font);
+      } catch (err) {
+        next(err);
+      }
+    },
+  );
+
+  app.delete("/api/fonts/:id", async (req, res, next) => {
+    try {
+      if (!(await removeFont(req.params.id))) {
+        return res.status(404).json({ message: "Font not found" });
+      }
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
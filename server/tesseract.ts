@@ -0,0 +1,92 @@
+import express, { type Express } from "express";
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { createWorker, type Worker } from "tesseract.js";
+import { buildOCRData, type OCRData } from "@shared/ocr";
+import { log } from "./vite";
+
+const require = createRequire(import.meta.url);
+
+// Directory holding the *.traineddata language packs. Override with
+// TESSDATA_DIR to point at a shared location on the host.
+export const tessdataDir = path.resolve(
+  process.env.TESSDATA_DIR || path.resolve(import.meta.dirname, "..", "tessdata"),
+);
+
+function packageDir(name: string) {
+  return path.dirname(require.resolve(`${name}/package.json`));
+}
+
+// Serve the tesseract.js worker script, the WASM core and the language data
+// from this server so OCR never needs to reach a CDN.
+export function serveTesseractAssets(app: Express) {
+  const workerDir = path.join(packageDir("tesseract.js"), "dist");
+  const coreDir = packageDir("tesseract.js-core");
+
+  if (!fs.existsSync(tessdataDir)) {
+    log(`language data directory ${tessdataDir} does not exist`, "tesseract");
+  }
+
+  app.use("/tesseract/worker", express.static(workerDir, { immutable: true, maxAge: "7d" }));
+  app.use("/tesseract/core", express.static(coreDir, { immutable: true, maxAge: "7d" }));
+  app.use("/tesseract/lang", express.static(tessdataDir, { maxAge: "1d" }));
+}
+
+// Language codes with a traineddata pack in the data directory, e.g. ["deu", "eng"]
+export async function listInstalledLanguages(): Promise<string[]> {
+  if (!fs.existsSync(tessdataDir)) return [];
+
+  const files = await fs.promises.readdir(tessdataDir);
+  return files
+    .filter((file) => file.endsWith(".traineddata"))
+    .map((file) => file.slice(0, -".traineddata".length))
+    .sort();
+}
+
+// Installed languages text can be recognized in. osd.traineddata sits next to them but
+// only detects orientation and script; recognizing with it fails inside tesseract.
+export async function listRecognitionLanguages(): Promise<string[]> {
+  const languages = await listInstalledLanguages();
+  return languages.filter((code) => code !== "osd");
+}
+
+let worker: Promise<Worker> | null = null;
+let workerLang: string | null = null;
+let pending: Promise<unknown> = Promise.resolve();
+
+// Recognize an encoded image (PNG, JPEG, ...) with the server's shared worker.
+// Jobs run one at a time so a language switch never interrupts a recognition.
+export function recognizeImage(image: Buffer, lang: string): Promise<OCRData> {
+  const job = pending.then(async () => {
+    if (!worker) {
+      workerLang = lang;
+      worker = createWorker(lang, undefined, {
+        langPath: tessdataDir,
+        gzip: false,
+        cacheMethod: "none",
+      });
+    }
+
+    try {
+      const current = await worker;
+      if (workerLang !== lang) {
+        await current.reinitialize(lang);
+        workerLang = lang;
+      }
+
+      const { data } = await current.recognize(image, {}, { blocks: true });
+      return buildOCRData(data);
+    } catch (err) {
+      // Start from a fresh worker after a failure rather than reusing a broken one
+      const broken = worker;
+      worker = null;
+      workerLang = null;
+      broken?.then((w) => w.terminate()).catch(() => {});
+      throw err;
+    }
+  });
+
+  pending = job.catch(() => {});
+  return job;
+}
@@ -0,0 +1,80 @@
+// Fonts in the shared library: uploaded once, stored by the server and registered in
+// every editor through the FontFace API. Returned by GET /api/fonts.
+
+export type FontFormat = 'truetype' | 'opentype' | 'woff' | 'woff2';
+
+export interface LibraryFont {
+  id: string;
+  family: string;
+  weight: number;
+  style: 'normal' | 'italic';
+  format: FontFormat;
+  fileName: string; // Stored file, served under /fonts/files
+  originalName: string;
+  uploadedAt: string;
+}
+
+export interface FontLibraryResponse {
+  fonts: LibraryFont[];
+}
+
+export const fontExtensions: Record<FontFormat, string> = {
+  truetype: 'ttf',
+  opentype: 'otf',
+  woff: 'woff',
+  woff2: 'woff2',
+};
+
+// Identify a font file by its signature rather than trusting the extension
+export function detectFontFormat(bytes: Uint8Array): FontFormat | null {
+  if (bytes.length < 4) return null;
+  const tag = String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3]);
+  if (tag === 'wOF2') return 'woff2';
+  if (tag === 'wOFF') return 'woff';
+  if (tag === 'OTTO') return 'opentype';
+  if (tag === 'true' || (bytes[0] === 0 && bytes[1] === 1 && bytes[2] === 0 && bytes[3] === 0)) return 'truetype';
+  return null;
+}
+
+// Weight names as they appear at the end of font file names
+const weightNames: [string, number][] = [
+  ['extralight', 200],
+  ['ultralight', 200],
+  ['extrabold', 800],
+  ['ultrabold', 800],
+  ['semibold', 600],
+  ['demibold', 600],
+  ['regular', 400],
+  ['medium', 500],
+  ['normal', 400],
+  ['black', 900],
+  ['heavy', 900],
+  ['light', 300],
+  ['thin', 100],
+  ['bold', 700],
+  ['book', 400],
+];
+
+// Family, weight and style from a file name like "Inter-SemiBoldItalic.woff2" or
+// "Roboto Condensed Bold.ttf"
+export function guessFontFace(fileName: string): Pick<LibraryFont, 'family' | 'weight' | 'style'> {
+  let name = fileName.replace(/\.[^.]+$/, '');
+  let style: LibraryFont['style'] = 'normal';
+  let weight = 400;
+
+  const italic = /[-_ ]?(italic|oblique)$/i;
+  if (italic.test(name)) {
+    style = 'italic';
+    name = name.replace(italic, '');
+  }
+
+  const suffix = name.match(/[-_ ]([A-Za-z]+)$/);
+  const named = suffix && weightNames.find(([key]) => suffix[1].toLowerCase() === key);
+  if (suffix && named) {
+    weight = named[1];
+    name = name.slice(0, -suffix[0].length);
+  }
+
+  const family = name.replace(/[-_]+/g, ' ').trim();
+  return { family: family || fileName, weight, style };
+}
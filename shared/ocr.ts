@@ -0,0 +1,138 @@
+import type { Bbox, Page } from "tesseract.js";
+
+// Recognition results as used by the editor and returned by POST /api/ocr.
+// Coordinates are pixels of the recognized image.
+
+export interface OCRWord {
+  id: string;
+  text: string;
+  confidence: number;
+  bbox: {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+  };
+  baseline?: OCRBaseline; // Baseline of the line this word sits on
+  angle?: number; // Clockwise rotation in radians of bbox around its center (see client/src/lib/orientation.ts)
+  isSelected?: boolean;
+  isEdited?: boolean;
+  originalText?: string;
+  mergedWords?: OCRWord[]; // Words this one replaced when a whole line or paragraph was edited
+  customColor?: string; // Store individual color per text object
+  hasBackgroundBox?: boolean; // Whether this text has a background box
+  backgroundBoxPaddingTop?: number; // Background box top padding for this text
+  backgroundBoxPaddingBottom?: number; // Background box bottom padding for this text
+  backgroundBoxPaddingLeft?: number; // Background box left padding for this text
+  backgroundBoxPaddingRight?: number; // Background box right padding for this text
+  backgroundBoxColor?: string; // Background box color for this text
+  fontFamily?: string; // Typography of the replacement text (see client/src/lib/typography.ts)
+  fontWeight?: number;
+  fontStyle?: 'normal' | 'italic';
+  fontFit?: 'cap-height' | 'width' | 'shrink' | 'fixed'; // How the font size follows the box
+  fontSize?: number; // Size in pixels for the fixed fit
+  fontSizeCalibration?: number; // Factor applied to fitted sizes
+  letterSpacing?: number;
+  textAlign?: 'left' | 'center' | 'right' | 'justify';
+  paragraphLayout?: OCRParagraphLayout; // Set when the replacement is wrapped over several lines
+  layerOrder?: number; // Place of the edit in the layer stack, bottom first (see client/src/lib/layers.ts)
+  layerHidden?: boolean; // Edit kept but not drawn
+}
+
+// Line pitch of the text a multi-line replacement wraps into (see client/src/lib/text-layout.ts).
+// Distances are in the box's own frame.
+export interface OCRParagraphLayout {
+  lineCount: number;
+  lineHeight: number; // Baseline to baseline
+  firstBaseline: number; // Below the top of the box
+  lineBoxHeight: number; // Average height of a detected line
+}
+
+export interface OCRBaseline {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// A line, paragraph or block: a run of words that can be selected and replaced as one
+export interface OCRTextGroup {
+  id: string;
+  text: string;
+  confidence: number;
+  bbox: Bbox;
+  baseline?: OCRBaseline;
+  angle?: number;
+  wordIds: string[];
+}
+
+export interface OCRData {
+  words: OCRWord[];
+  lines: OCRTextGroup[];
+  paragraphs: OCRTextGroup[];
+  blocks: OCRTextGroup[];
+}
+
+// Convert the block → paragraph → line → word hierarchy tesseract.js v6 returns
+// into flat lists, with each group referencing its words by ID
+export function buildOCRData(page: Page): OCRData {
+  const stamp = Date.now();
+  const data: OCRData = { words: [], lines: [], paragraphs: [], blocks: [] };
+
+  (page.blocks || []).forEach((block, blockIndex) => {
+    const blockWordIds: string[] = [];
+
+    block.paragraphs.forEach((paragraph, paragraphIndex) => {
+      const paragraphWordIds: string[] = [];
+
+      paragraph.lines.forEach((line, lineIndex) => {
+        const baseline = line.baseline.has_baseline
+          ? { x0: line.baseline.x0, y0: line.baseline.y0, x1: line.baseline.x1, y1: line.baseline.y1 }
+          : undefined;
+        const lineWordIds = line.words.map(word => {
+          const id = `text_${stamp}_${data.words.length}`;
+          data.words.push({
+            id,
+            text: word.text,
+            confidence: word.confidence,
+            bbox: word.bbox,
+            baseline,
+            isSelected: false,
+            isEdited: false,
+            originalText: word.text
+          });
+          return id;
+        });
+
+        data.lines.push({
+          id: `line_${stamp}_${blockIndex}_${paragraphIndex}_${lineIndex}`,
+          text: line.text.trim(),
+          confidence: line.confidence,
+          bbox: line.bbox,
+          baseline,
+          wordIds: lineWordIds
+        });
+        paragraphWordIds.push(...lineWordIds);
+      });
+
+      data.paragraphs.push({
+        id: `paragraph_${stamp}_${blockIndex}_${paragraphIndex}`,
+        text: paragraph.text.trim(),
+        confidence: paragraph.confidence,
+        bbox: paragraph.bbox,
+        wordIds: paragraphWordIds
+      });
+      blockWordIds.push(...paragraphWordIds);
+    });
+
+    data.blocks.push({
+      id: `block_${stamp}_${blockIndex}`,
+      text: block.text.trim(),
+      confidence: block.confidence,
+      bbox: block.bbox,
+      wordIds: blockWordIds
+    });
+  });
+
+  return data;
+}